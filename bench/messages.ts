@@ -0,0 +1,111 @@
+/*
+ * Measures how fast script message batches with binary payloads go through
+ * the D-Bus codec, comparing the generic d-bus-message-protocol path, which
+ * carries `ay` as one number per byte, with the Uint8Array path in lib/wire.
+ *
+ *     npm run bench
+ */
+import { MessageType } from "d-bus-message-protocol";
+import * as generic from "d-bus-message-protocol";
+import { marshalArgs, unmarshalArgs } from "../lib/dbus";
+import { AgentMessageKind, AgentMessageRecord } from "../lib/protocol";
+import * as wire from "../lib/wire";
+
+const signature = "a(i(u)sbay)u";
+
+interface Codec {
+    name: string;
+    encode(records: AgentMessageRecord[]): ArrayBuffer;
+    decode(data: ArrayBuffer): void;
+}
+
+const genericCodec: Codec = {
+    name: "number[]",
+    encode(records) {
+        const body = marshalArgs(signature, [records, 1]);
+        const args = body.args as [any, any];
+        args[0] = args[0].map(([kind, id, text, hasData, data]: any[]) => [kind, id, text, hasData, Array.from(data)]);
+        return generic.serializeMessage(makeSignal(body.types, args));
+    },
+    decode(data) {
+        const [message] = generic.parseMessages(data);
+        const [records] = unmarshalArgs(message.types, message.args);
+        for (const record of records) {
+            new Uint8Array(record[4]);
+        }
+    },
+};
+
+const uint8ArrayCodec: Codec = {
+    name: "Uint8Array",
+    encode(records) {
+        const body = marshalArgs(signature, [records, 1]);
+        return wire.serializeMessage(makeSignal(body.types, body.args));
+    },
+    decode(data) {
+        const [message] = wire.parseMessages(data);
+        unmarshalArgs(message.types, message.args);
+    },
+};
+
+function makeSignal(types: readonly any[], args: any[]): any {
+    return {
+        messageType: MessageType.Signal,
+        serial: 1,
+        objectPath: "/re/frida/AgentSession/bench",
+        interfaceName: "re.frida.AgentSession17",
+        memberName: "Message",
+        types,
+        args,
+    };
+}
+
+function makeBatch(payloadSize: number, count: number): AgentMessageRecord[] {
+    const payload = new Uint8Array(payloadSize);
+    for (let i = 0; i !== payload.length; i++) {
+        payload[i] = i & 0xff;
+    }
+    const records: AgentMessageRecord[] = [];
+    for (let i = 0; i !== count; i++) {
+        records.push([AgentMessageKind.Script, [1], JSON.stringify({ type: "send", payload: i }), true, payload]);
+    }
+    return records;
+}
+
+function measure(codec: Codec, records: AgentMessageRecord[], minDuration: number): number {
+    let bytes = 0;
+    let iterations = 0;
+    const start = performance.now();
+    let elapsed = 0;
+    do {
+        const data = codec.encode(records);
+        codec.decode(data);
+        bytes += records.reduce((total, record) => total + record[4].byteLength, 0);
+        iterations++;
+        elapsed = performance.now() - start;
+    } while (elapsed < minDuration);
+    return (bytes / (1024 * 1024)) / (elapsed / 1000);
+}
+
+function checkCompatible(records: AgentMessageRecord[]): void {
+    const expected = new Uint8Array(genericCodec.encode(records));
+    const actual = new Uint8Array(uint8ArrayCodec.encode(records));
+    if (expected.length !== actual.length || expected.some((b, i) => b !== actual[i])) {
+        throw new Error("Codecs disagree on the wire format");
+    }
+}
+
+const scenarios: [payloadSize: number, count: number, codecs: Codec[]][] = [
+    [1024, 8, [genericCodec, uint8ArrayCodec]],
+    [4096, 8, [genericCodec, uint8ArrayCodec]],
+    [16384, 4, [genericCodec, uint8ArrayCodec]],
+    [1024 * 1024, 4, [uint8ArrayCodec]],
+];
+
+checkCompatible(makeBatch(1024, 2));
+
+for (const [payloadSize, count, codecs] of scenarios) {
+    const records = makeBatch(payloadSize, count);
+    const results = codecs.map(codec => `${codec.name}: ${measure(codec, records, 1000).toFixed(1)} MiB/s`);
+    console.log(`${count} x ${payloadSize} bytes  ${results.join("  ")}`);
+}
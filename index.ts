@@ -1,6 +1,23 @@
-export { Client } from "./lib/client";
-export { Session } from "./lib/session";
-export { Script } from "./lib/script";
+export { Client, TransportLayerSecurity, Stdio, Scope } from "./lib/client";
+export type { ClientOptions, ReconnectOptions, SpawnOptions, FrontmostQueryOptions, ApplicationQueryOptions, ProcessQueryOptions } from "./lib/client";
+export { Session, RelayKind } from "./lib/session";
+export type { PeerOptions, TurnServer, Relay, RTCPeerConnectionConstructor } from "./lib/session";
+export { Script, ScriptRuntime, SnapshotTransport, MessageOverflowPolicy } from "./lib/script";
+export type { ScriptOptions, CompileOptions, SnapshotOptions, ScriptExports, RpcExports, MessageStreamOptions, ScriptMessageEvent } from "./lib/script";
 export * from "./lib/protocol";
+export * from "./lib/application";
+export { Bus } from "./lib/bus";
+export type { BusDetachedHandler, BusMessageHandler } from "./lib/bus";
+export * from "./lib/channel";
+export * from "./lib/child";
 export * from "./lib/crash";
-export * from "./lib/process";
\ No newline at end of file
+export * from "./lib/errors";
+export * from "./lib/inspector";
+export * from "./lib/logger";
+export { PortalMembership } from "./lib/portal";
+export type { PortalOptions } from "./lib/portal";
+export * from "./lib/process";
+export * from "./lib/service";
+export * from "./lib/sourcemap";
+export * from "./lib/spawn";
+export * from "./lib/transport";
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { VariantDict } from "./protocol";
+
+export interface Application {
+    identifier: string;
+    name: string;
+    pid: number;
+    parameters: VariantDict;
+    icons: Icon[];
+}
+
+export class Icon {
+    constructor(
+            public format: IconFormat,
+            public width: number,
+            public height: number,
+            public image: Uint8Array) {
+    }
+
+    toBlob(): Promise<Blob> {
+        return iconToBlob(this);
+    }
+
+    toImageBitmap(): Promise<ImageBitmap> {
+        return iconToImageBitmap(this);
+    }
+
+    toDataUrl(): Promise<string> {
+        return iconToDataUrl(this);
+    }
+}
+
+export enum IconFormat {
+    Rgba = "rgba",
+    Png = "png"
+}
+
+export async function iconToBlob(icon: Icon): Promise<Blob> {
+    if (icon.format === IconFormat.Png) {
+        return new Blob([icon.image.slice()], { type: "image/png" });
+    }
+
+    const canvas = new OffscreenCanvas(icon.width, icon.height);
+    canvas.getContext("2d")!.putImageData(rgbaToImageData(icon), 0, 0);
+    return await canvas.convertToBlob({ type: "image/png" });
+}
+
+export async function iconToImageBitmap(icon: Icon): Promise<ImageBitmap> {
+    if (icon.format === IconFormat.Png) {
+        return await createImageBitmap(await iconToBlob(icon));
+    }
+
+    return await createImageBitmap(rgbaToImageData(icon));
+}
+
+export async function iconToDataUrl(icon: Icon): Promise<string> {
+    const blob = await iconToBlob(icon);
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+function rgbaToImageData(icon: Icon): ImageData {
+    return new ImageData(new Uint8ClampedArray(icon.image), icon.width, icon.height);
+}
\ No newline at end of file
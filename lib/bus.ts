@@ -0,0 +1,109 @@
+import { BusSession, CallOptions } from "./protocol";
+import { InvalidOperationError } from "./errors";
+import { Signal } from "./signals";
+
+
+class BrowserEventEmitter {
+    private listeners = new Map<string, Function[]>();
+
+    addListener(event: string, listener: Function): void {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, []);
+        }
+        this.listeners.get(event)!.push(listener);
+    }
+
+    removeListener(event: string, listener: Function): void {
+        const eventListeners = this.listeners.get(event);
+        if (eventListeners) {
+            const index = eventListeners.indexOf(listener);
+            if (index > -1) {
+                eventListeners.splice(index, 1);
+            }
+        }
+    }
+
+    emit(event: string, ...args: any[]): void {
+        const eventListeners = this.listeners.get(event);
+        if (eventListeners) {
+            eventListeners.slice().forEach(listener => listener(...args));
+        }
+    }
+
+    once(event: string, listener: Function): void {
+        const onceWrapper = (...args: any[]) => {
+            listener(...args);
+            this.removeListener(event, onceWrapper);
+        };
+        this.addListener(event, onceWrapper);
+    }
+}
+
+/**
+ * The message bus of a frida-portal's control endpoint, shared between all of
+ * the portal's control clients and the agents joined to it.
+ */
+export class Bus {
+    detached: Signal<BusDetachedHandler>;
+    message: Signal<BusMessageHandler>;
+
+    _events = new BrowserEventEmitter();
+
+    private _attachRequest: Promise<BusSession> | null = null;
+
+    constructor(private _controller: BusController) {
+        this.detached = new Signal<BusDetachedHandler>(this._events, "detached");
+        this.message = new Signal<BusMessageHandler>(this._events, "message");
+    }
+
+    get isAttached(): boolean {
+        return this._attachRequest !== null;
+    }
+
+    async attach(callOptions: CallOptions = {}): Promise<void> {
+        if (this._attachRequest === null) {
+            const request = this._controller._attachBus(this, callOptions);
+            this._attachRequest = request;
+            request.catch(() => {
+                if (this._attachRequest === request) {
+                    this._attachRequest = null;
+                }
+            });
+        }
+        await this._attachRequest;
+    }
+
+    /**
+     * Posts a JSON-serializable message, optionally with binary data, to the bus.
+     */
+    async post(message: any, data?: Uint8Array | ArrayBuffer, callOptions: CallOptions = {}): Promise<void> {
+        if (this._attachRequest === null) {
+            throw new InvalidOperationError("Bus is not attached");
+        }
+        const session = await this._attachRequest;
+
+        const hasData = data !== undefined;
+        const bytes = !hasData ? new Uint8Array(0) : (data instanceof Uint8Array) ? data : new Uint8Array(data);
+        await session.post(JSON.stringify(message), hasData, bytes, callOptions);
+    }
+
+    _onMessage(json: string, hasData: boolean, data: Uint8Array): void {
+        this._events.emit("message", JSON.parse(json), hasData ? data : null);
+    }
+
+    _onDetached(): void {
+        if (this._attachRequest === null) {
+            return;
+        }
+
+        this._attachRequest = null;
+        this._events.emit("detached");
+    }
+}
+
+export interface BusController {
+    _attachBus(bus: Bus, callOptions: CallOptions): Promise<BusSession>;
+}
+
+export type BusDetachedHandler = () => void;
+export type BusMessageHandler = (message: any, data: Uint8Array | null) => void;
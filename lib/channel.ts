@@ -0,0 +1,185 @@
+import { CallOptions, ChannelSession } from "./protocol";
+import { TransportError } from "./errors";
+import { Signal } from "./signals";
+
+
+class BrowserEventEmitter {
+    private listeners = new Map<string, Function[]>();
+
+    addListener(event: string, listener: Function): void {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, []);
+        }
+        this.listeners.get(event)!.push(listener);
+    }
+
+    removeListener(event: string, listener: Function): void {
+        const eventListeners = this.listeners.get(event);
+        if (eventListeners) {
+            const index = eventListeners.indexOf(listener);
+            if (index > -1) {
+                eventListeners.splice(index, 1);
+            }
+        }
+    }
+
+    emit(event: string, ...args: any[]): void {
+        const eventListeners = this.listeners.get(event);
+        if (eventListeners) {
+            eventListeners.slice().forEach(listener => listener(...args));
+        }
+    }
+
+    once(event: string, listener: Function): void {
+        const onceWrapper = (...args: any[]) => {
+            listener(...args);
+            this.removeListener(event, onceWrapper);
+        };
+        this.addListener(event, onceWrapper);
+    }
+}
+
+/**
+ * A byte stream to an address on the device, such as "tcp:8080" or
+ * "localabstract:foo", multiplexed over the client's connection.
+ *
+ * Each half can be finished on its own: closing `writable` only ends writing,
+ * and the channel is torn down once `readable` has ended too, or when `close()`
+ * is called.
+ */
+export class Channel {
+    closed: Signal<ChannelClosedHandler>;
+
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<Uint8Array>;
+
+    _events = new BrowserEventEmitter();
+
+    private _state: "open" | "closed" = "open";
+    private _readableDone = false;
+    private _writableDone = false;
+    private _readableController!: ReadableStreamDefaultController<Uint8Array>;
+    private _writableController!: WritableStreamDefaultController;
+
+    constructor(private _session: ChannelSession, public readonly id: number, public readonly address: string, options: ChannelOptions = {}) {
+        const { highWaterMark = DEFAULT_HIGH_WATER_MARK } = options;
+
+        this.closed = new Signal<ChannelClosedHandler>(this._events, "closed");
+
+        this.readable = new ReadableStream<Uint8Array>({
+            start: controller => {
+                this._readableController = controller;
+            },
+            cancel: () => {
+                this._readableDone = true;
+                this._finishIfDone();
+            },
+        }, new ByteLengthQueuingStrategy({ highWaterMark }));
+
+        this.writable = new WritableStream<Uint8Array>({
+            start: controller => {
+                this._writableController = controller;
+            },
+            write: chunk => this.post(chunk),
+            close: () => {
+                this._writableDone = true;
+                this._finishIfDone();
+            },
+            abort: () => {
+                this._writableDone = true;
+                this._finishIfDone();
+            },
+        });
+    }
+
+    get isClosed(): boolean {
+        return this._state === "closed";
+    }
+
+    async post(data: Uint8Array | ArrayBuffer, callOptions: CallOptions = {}): Promise<void> {
+        if (this._state === "closed") {
+            throw new TransportError(`Channel to ${this.address} is closed`);
+        }
+        await this._session.post((data instanceof Uint8Array) ? data : new Uint8Array(data), callOptions);
+    }
+
+    async close(callOptions: CallOptions = {}): Promise<void> {
+        if (this._state === "closed") {
+            return;
+        }
+
+        this._onClosed(null);
+
+        try {
+            await this._session.close(callOptions);
+        } catch (error) {
+        }
+    }
+
+    _onMessage(data: Uint8Array): void {
+        if (this._state === "closed" || this._readableDone) {
+            return;
+        }
+
+        if (data.byteLength === 0) {
+            this._readableDone = true;
+            this._readableController.close();
+            this._finishIfDone();
+            return;
+        }
+
+        this._readableController.enqueue(data);
+
+        // The device cannot be asked to slow down, so a reader that falls this far
+        // behind loses the channel rather than growing the buffer without bound.
+        if (this._readableController.desiredSize! < 0) {
+            this._onClosed(new TransportError(`Channel to ${this.address} buffered more than its high-water mark of unread data`));
+            this._session.close().catch(() => {});
+        }
+    }
+
+    _onClosed(error: Error | null): void {
+        if (this._state === "closed") {
+            return;
+        }
+
+        this._state = "closed";
+
+        if (!this._writableDone) {
+            this._writableDone = true;
+            this._writableController.error(error ?? new TransportError(`Channel to ${this.address} is closed`));
+        }
+
+        if (!this._readableDone) {
+            this._readableDone = true;
+            try {
+                if (error !== null) {
+                    this._readableController.error(error);
+                } else {
+                    this._readableController.close();
+                }
+            } catch (e) {
+            }
+        }
+
+        this._events.emit("closed", error);
+    }
+
+    private _finishIfDone(): void {
+        if (this._readableDone && this._writableDone) {
+            this.close();
+        }
+    }
+}
+
+export interface ChannelOptions {
+    /**
+     * How many bytes of unread data `readable` may hold, 1 MiB by default.
+     * Beyond that the channel is closed with a TransportError.
+     */
+    highWaterMark?: number;
+}
+
+const DEFAULT_HIGH_WATER_MARK = 1024 * 1024;
+
+export type ChannelClosedHandler = (error: Error | null) => void;
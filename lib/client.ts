@@ -1,73 +1,94 @@
+import { Application, Icon, IconFormat } from "./application";
+import { Bus } from "./bus";
+import { Channel, ChannelOptions } from "./channel";
+import { Child, ChildOrigin } from "./child";
+import { Crash } from "./crash";
 import { Process } from "./process";
+import { Service } from "./service";
+import { Spawn } from "./spawn";
 import {
     HostConnection,
     HostSession,
     AgentSession,
     AgentSessionId,
+    AgentScriptId,
+    AgentMessageRecord,
+    PortalMembershipId,
+    HostApplicationInfo,
+    HostProcessInfo,
+    HostSpawnInfo,
+    HostChildInfo,
+    CrashInfo,
+    HostSpawnOptions,
     VariantDict,
     Variant,
     MessageBus,
+    BusSignalHandler,
+    CallOptions,
+    InjectorPayloadId,
+    ChannelId,
+    ChannelSession,
+    ServiceId,
+    ServiceSession,
+    BusSession,
 } from "./protocol";
+import {
+    HostSessionInterface,
+    HostSessionMethod,
+    HostSessionSignal,
+    AgentSessionInterface,
+    AgentSessionMethod,
+    AuthenticationServiceInterface,
+    ChannelInterface,
+    ChannelMethod,
+    ServiceInterface,
+    ServiceMethod,
+    BusSessionInterface,
+    BusSessionMethod,
+    lookupMethod,
+    marshalArgs,
+    unmarshalArgs,
+    toArrayBuffer,
+    makeDBusError,
+    parseVariantDict,
+    toVariantDict,
+} from "./dbus";
+import { CancelledError, ErrorContext, InvalidOperationError, TimedOutError, TransportError } from "./errors";
 import {
     Session,
     SessionDetachReason,
 } from "./session";
+import { parseMessages, serializeMessage } from "./wire";
+import { Logger, LoggerOptions, LogCategory } from "./logger";
+import { Signal } from "./signals";
+import { Transport, TransportFactory, webSocketTransport } from "./transport";
 
-import { parseMessages, serializeMessage, MessageType } from 'd-bus-message-protocol';
-import { parseTypes } from 'd-bus-type-system';
+import { MessageType } from 'd-bus-message-protocol';
 import type { SignalMessage } from 'd-bus-message-protocol';
 
-
-class WebSocketWrapper {
-    public ws: WebSocket;
-    private listeners = new Map<string, Function[]>();
-
-    constructor(url: string) {
-        this.ws = new WebSocket(url);
-        this.setupWebSocketListeners();
+// Declared here as well so that the emitted typings do not require esnext.disposable in
+// consumers' lib. On runtimes without the symbol, fall back to the registered name that
+// transpiled `await using` looks up, without touching the global Symbol.
+declare global {
+    interface SymbolConstructor {
+        readonly asyncDispose: unique symbol;
     }
+}
 
-    private setupWebSocketListeners() {
-        this.ws.addEventListener('close', (event) => {
-            this.emit('close', event);
-        });
-        
-        this.ws.addEventListener('error', (event) => {
-            this.emit('error', event);
-        });
-        
-        this.ws.addEventListener('message', async (event) => {
-            let messageData: ArrayBuffer;
-            if (event.data instanceof Blob) {
-                messageData = await event.data.arrayBuffer();
-            } else {
-                messageData = event.data;
-            }
-            this.emit('message', messageData);
-        });
-    }
+const asyncDispose: typeof Symbol.asyncDispose = (Symbol.asyncDispose ?? Symbol.for("Symbol.asyncDispose")) as typeof Symbol.asyncDispose;
 
-    private emit(eventName: string, data: any) {
-        const eventListeners = this.listeners.get(eventName) || [];
-        eventListeners.forEach(listener => listener(data));
-    }
 
-    on(event: string, listener: Function) {
+class BrowserEventEmitter {
+    private listeners = new Map<string, Function[]>();
+
+    addListener(event: string, listener: Function): void {
         if (!this.listeners.has(event)) {
             this.listeners.set(event, []);
         }
         this.listeners.get(event)!.push(listener);
     }
 
-    once(event: string, listener: Function) {
-        const onceWrapper = (data: any) => {
-            listener(data);
-            this.off(event, onceWrapper);
-        };
-        this.on(event, onceWrapper);
-    }
-
-    off(event: string, listener: Function) {
+    removeListener(event: string, listener: Function): void {
         const eventListeners = this.listeners.get(event);
         if (eventListeners) {
             const index = eventListeners.indexOf(listener);
@@ -77,21 +98,52 @@ class WebSocketWrapper {
         }
     }
 
-    send(data: ArrayBuffer) {
-        this.ws.send(data);
+    emit(event: string, ...args: any[]): void {
+        const eventListeners = this.listeners.get(event);
+        if (eventListeners) {
+            eventListeners.slice().forEach(listener => listener(...args));
+        }
+    }
+
+    once(event: string, listener: Function): void {
+        const onceWrapper = (...args: any[]) => {
+            listener(...args);
+            this.removeListener(event, onceWrapper);
+        };
+        this.addListener(event, onceWrapper);
     }
 }
 
 
 class BrowserDBusClient implements MessageBus {
-    private ws: WebSocketWrapper;
+    private ws: Transport;
     private serialCounter = 1;
-    private pendingCalls = new Map<number, { resolve: Function, reject: Function }>();
+    private pendingCalls = new Map<number, PendingCall>();
     private signalHandlers = new Map<string, Function[]>();
+    private closed = false;
 
-    constructor(ws: WebSocketWrapper) {
+    constructor(ws: Transport, private logger: Logger) {
         this.ws = ws;
         this.ws.on('message', this.handleMessage.bind(this));
+        this.ws.once('close', () => {
+            this.closed = true;
+            this.rejectPendingCalls("Connection closed");
+        });
+    }
+
+    close() {
+        this.closed = true;
+        this.rejectPendingCalls("Client closed");
+        this.signalHandlers.clear();
+        this.ws.close();
+    }
+
+    private rejectPendingCalls(reason: string) {
+        const calls = Array.from(this.pendingCalls.values());
+        this.pendingCalls.clear();
+        for (const call of calls) {
+            call.reject(new TransportError(`${reason} while waiting for a reply to ${call.context.method}`, call.context));
+        }
     }
 
     addSignalListener(objectPath: string, interfaceName: string, memberName: string, handler: Function) {
@@ -117,50 +169,58 @@ class BrowserDBusClient implements MessageBus {
         try {
             const messages = parseMessages(messageData);
             for (const msg of messages) {
+                this.logger.wire("recv", msg);
                 if (msg.messageType === MessageType.MethodReturn) {
-                    const pending = this.pendingCalls.get(msg.serial);
+                    const pending = this.pendingCalls.get(msg.replySerial);
                     if (pending) {
-                        this.pendingCalls.delete(msg.serial);
-                        pending.resolve(msg.args);
+                        this.pendingCalls.delete(msg.replySerial);
+                        pending.resolve(unmarshalArgs(msg.types, msg.args));
                     }
                 } else if (msg.messageType === MessageType.Error) {
-                    const pending = this.pendingCalls.get(msg.serial);
+                    const pending = this.pendingCalls.get(msg.replySerial);
                     if (pending) {
-                        this.pendingCalls.delete(msg.serial);
-                        const errorMsg = msg as any;
-                        pending.reject(new Error(`D-Bus Error: ${errorMsg.errorName} - ${errorMsg.args?.[0] || 'Unknown error'}`));
+                        this.pendingCalls.delete(msg.replySerial);
+                        const message = (typeof msg.args?.[0] === "string") ? msg.args[0] : msg.errorName;
+                        pending.reject(makeDBusError(msg.errorName, message, pending.context));
                     }
                 } else if (msg.messageType === MessageType.Signal) {
                     const signalMsg = msg as SignalMessage;
-                    console.log('D-Bus Signal received:', {
-                        objectPath: signalMsg.objectPath,
-                        interfaceName: signalMsg.interfaceName,
-                        memberName: signalMsg.memberName,
-                        args: signalMsg.args
-                    });
                     const key = `${signalMsg.objectPath}:${signalMsg.interfaceName}:${signalMsg.memberName}`;
                     const handlers = this.signalHandlers.get(key);
-                    console.log(`Looking for handlers with key: ${key}, found: ${handlers?.length || 0}`);
+                    this.logger.debug(LogCategory.DBus, `Signal ${signalMsg.interfaceName}.${signalMsg.memberName} on ${signalMsg.objectPath}, ${handlers?.length ?? 0} handler(s)`);
                     if (handlers) {
+                        const args = unmarshalArgs(signalMsg.types, signalMsg.args);
                         handlers.forEach(handler => {
                             try {
-                                console.log('Calling signal handler with args:', signalMsg.args);
-                                handler(signalMsg.args);
+                                handler(args);
                             } catch (error) {
-                                console.error('Error in signal handler:', error);
+                                this.logger.error(LogCategory.DBus, `Error in handler for ${signalMsg.memberName} signal`, error);
                             }
                         });
                     }
                 }
             }
         } catch (error) {
-            console.error('Error parsing D-Bus message:', error);
+            this.logger.error(LogCategory.DBus, 'Error parsing D-Bus message', error);
         }
     }
 
-    async callMethod(destination: string, objectPath: string, interfaceName: string, memberName: string, args?: any[]): Promise<any> {
+    async callMethod(destination: string, objectPath: string, interfaceName: string, memberName: string, args: any[] = [], options: CallOptions = {}): Promise<any[]> {
+        const method = lookupMethod(interfaceName, memberName);
+        const body = marshalArgs(method.in, args);
+
+        const { signal, timeout = DEFAULT_CALL_TIMEOUT } = options;
+
         const serial = this.serialCounter++;
-        
+        const context: ErrorContext = { method: `${interfaceName}.${memberName}`, objectPath, serial };
+
+        if (signal?.aborted) {
+            throw new CancelledError(`${context.method} was cancelled`, context);
+        }
+        if (this.closed) {
+            throw new TransportError(`Connection closed before calling ${context.method}`, context);
+        }
+
         const message: any = {
             messageType: MessageType.MethodCall,
             serial,
@@ -173,135 +233,156 @@ class BrowserDBusClient implements MessageBus {
             memberName
         };
 
-        if (memberName === "EnumerateProcesses") {
-            const types = parseTypes("a{sv}");
-            message.types = types;
-            message.args = [[]];
-        } else if (memberName === "Attach") {
-            const types = parseTypes("ua{sv}");
-            message.types = types;
-            if (args && args.length >= 2) {
-                const pid = args[0];
-                const variantDict = args[1];
-                const convertedOptions: any[] = [];
-                for (const [key, variant] of Object.entries(variantDict)) {
-                    const v = variant as Variant;
-                    convertedOptions.push([key, [v.signature, v.value]]);
-                }
-                message.args = [pid, convertedOptions];
-            } else {
-                message.args = args;
-            }
-        } else if (memberName === "CreateScript") {
-            const types = parseTypes("sa{sv}");
-            message.types = types;
-            if (args && args.length >= 2) {
-                const source = args[0];
-                const variantDict = args[1];
-                const convertedOptions: any[] = [];
-                for (const [key, variant] of Object.entries(variantDict)) {
-                    const v = variant as Variant;
-                    convertedOptions.push([key, [v.signature, v.value]]);
-                }
-                message.args = [source, convertedOptions];
-            } else {
-                message.args = args;
-            }
-        } else if (memberName === "LoadScript") {
-            const types = parseTypes("((u))");
-            message.types = types;
-            console.log('LoadScript called with args:', args);
-            if (args && args.length >= 1) {
-                const scriptIdTuple = args[0] as [number];
-                console.log('LoadScript scriptIdTuple:', scriptIdTuple);
-                const nestedStruct = [scriptIdTuple];
-                console.log('LoadScript final message.args:', nestedStruct);
-                console.log('LoadScript final message.args structure:', JSON.stringify(nestedStruct));
-                message.args = nestedStruct;
-            }
-        } else if (memberName === "DestroyScript") {
-            const types = parseTypes("((u))");
-            message.types = types;
-            if (args && args.length >= 1) {
-                const scriptIdTuple = args[0] as [number];
-                message.args = [scriptIdTuple];
-            }
-        } else if (memberName === "PostMessages") {
-            const types = parseTypes("aau");
-            message.types = types;
-            message.args = args;
-        } else if (memberName === "Resume") {
-            const types = parseTypes("u");
-            message.types = types;
-            message.args = args;
-        } else if (memberName === "Close") {
-            const types = parseTypes("");
-            message.types = types;
-            message.args = args || [];
-        } else if (args && args.length > 0) {
-            message.args = args;
+        if (body.types.length > 0) {
+            message.types = body.types;
+            message.args = body.args;
         }
 
+        this.logger.wire("send", message);
         const buffer = serializeMessage(message);
         this.ws.send(buffer);
 
         return new Promise((resolve, reject) => {
-            this.pendingCalls.set(serial, { resolve, reject });
-            
-           
-            setTimeout(() => {
-                if (this.pendingCalls.has(serial)) {
-                    this.pendingCalls.delete(serial);
-                    reject(new Error('D-Bus call timeout'));
+            let timer: ReturnType<typeof setTimeout> | null = null;
+
+            const onAbort = () => {
+                this.pendingCalls.delete(serial);
+                cleanup();
+                reject(new CancelledError(`${context.method} was cancelled`, context));
+            };
+
+            const cleanup = () => {
+                if (timer !== null) {
+                    clearTimeout(timer);
                 }
-            }, 30000);
+                signal?.removeEventListener("abort", onAbort);
+            };
+
+            this.pendingCalls.set(serial, {
+                resolve: (value: any[]) => {
+                    cleanup();
+                    resolve(value);
+                },
+                reject: (error: Error) => {
+                    cleanup();
+                    reject(error);
+                },
+                context
+            });
+
+            signal?.addEventListener("abort", onAbort);
+
+            if (timeout > 0) {
+                timer = setTimeout(() => {
+                    this.pendingCalls.delete(serial);
+                    cleanup();
+                    reject(new TimedOutError(`Timed out waiting for a reply to ${context.method}`, context));
+                }, timeout);
+            }
         });
     }
 }
 
 
+interface PendingCall {
+    resolve: (value: any[]) => void;
+    reject: (error: Error) => void;
+    context: ErrorContext;
+}
+
+
 class BrowserHostSession implements HostSession {
     constructor(private bus: MessageBus) {}
 
-    async enumerateProcesses(options: VariantDict): Promise<Array<[number, string, VariantDict]>> {
-        const result = await this.bus.callMethod(
-            "re.frida.HostSession17",
-            "/re/frida/HostSession",
-            "re.frida.HostSession17",
-            "EnumerateProcesses"
-        );
+    async getFrontmostApplication(options: VariantDict, callOptions?: CallOptions): Promise<HostApplicationInfo> {
+        const result = await this.call("GetFrontmostApplication", [options], callOptions);
         return result[0];
     }
 
-    async attach(pid: number, options: VariantDict): Promise<AgentSessionId> {
-        const result = await this.bus.callMethod(
-            "re.frida.HostSession17",
-            "/re/frida/HostSession",
-            "re.frida.HostSession17",
-            "Attach",
-            [pid, options]
-        );
+    async enumerateApplications(options: VariantDict, callOptions?: CallOptions): Promise<HostApplicationInfo[]> {
+        const result = await this.call("EnumerateApplications", [options], callOptions);
         return result[0];
     }
 
-    async reattach(id: AgentSessionId): Promise<void> {
-        await this.bus.callMethod(
-            "re.frida.HostSession17",
-            "/re/frida/HostSession",
-            "re.frida.HostSession17",
-            "Reattach",
-            [id]
-        );
+    async enumerateProcesses(options: VariantDict, callOptions?: CallOptions): Promise<HostProcessInfo[]> {
+        const result = await this.call("EnumerateProcesses", [options], callOptions);
+        return result[0];
+    }
+
+    async attach(pid: number, options: VariantDict, callOptions?: CallOptions): Promise<AgentSessionId> {
+        const result = await this.call("Attach", [pid, options], callOptions);
+        return result[0];
+    }
+
+    async reattach(id: AgentSessionId, callOptions?: CallOptions): Promise<void> {
+        await this.call("Reattach", [id], callOptions);
     }
 
-    async querySystemParameters(): Promise<VariantDict> {
-        const result = await this.bus.callMethod(
-            "re.frida.HostSession17",
+    async querySystemParameters(callOptions?: CallOptions): Promise<VariantDict> {
+        const result = await this.call("QuerySystemParameters", [], callOptions);
+        return result[0];
+    }
+
+    async enableSpawnGating(callOptions?: CallOptions): Promise<void> {
+        await this.call("EnableSpawnGating", [], callOptions);
+    }
+
+    async disableSpawnGating(callOptions?: CallOptions): Promise<void> {
+        await this.call("DisableSpawnGating", [], callOptions);
+    }
+
+    async enumeratePendingSpawn(callOptions?: CallOptions): Promise<HostSpawnInfo[]> {
+        const result = await this.call("EnumeratePendingSpawn", [], callOptions);
+        return result[0];
+    }
+
+    async enumeratePendingChildren(callOptions?: CallOptions): Promise<HostChildInfo[]> {
+        const result = await this.call("EnumeratePendingChildren", [], callOptions);
+        return result[0];
+    }
+
+    async spawn(program: string, options: HostSpawnOptions, callOptions?: CallOptions): Promise<number> {
+        const result = await this.call("Spawn", [program, options], callOptions);
+        return result[0];
+    }
+
+    async resume(pid: number, callOptions?: CallOptions): Promise<void> {
+        await this.call("Resume", [pid], callOptions);
+    }
+
+    async kill(pid: number, callOptions?: CallOptions): Promise<void> {
+        await this.call("Kill", [pid], callOptions);
+    }
+
+    async injectLibraryFile(pid: number, path: string, entrypoint: string, data: string, callOptions?: CallOptions): Promise<InjectorPayloadId> {
+        const result = await this.call("InjectLibraryFile", [pid, path, entrypoint, data], callOptions);
+        return result[0];
+    }
+
+    async injectLibraryBlob(pid: number, blob: Uint8Array, entrypoint: string, data: string, callOptions?: CallOptions): Promise<InjectorPayloadId> {
+        const result = await this.call("InjectLibraryBlob", [pid, blob, entrypoint, data], callOptions);
+        return result[0];
+    }
+
+    async openChannel(address: string, callOptions?: CallOptions): Promise<ChannelId> {
+        const result = await this.call("OpenChannel", [address], callOptions);
+        return result[0];
+    }
+
+    async openService(address: string, callOptions?: CallOptions): Promise<ServiceId> {
+        const result = await this.call("OpenService", [address], callOptions);
+        return result[0];
+    }
+
+    private call(method: HostSessionMethod, args: any[] = [], options?: CallOptions): Promise<any[]> {
+        return this.bus.callMethod(
+            HostSessionInterface.name,
             "/re/frida/HostSession",
-            "re.frida.HostSession17",
-            "QuerySystemParameters"
+            HostSessionInterface.name,
+            method,
+            args,
+            options
         );
-        return result[0];
     }
 }
 
@@ -309,147 +390,274 @@ class BrowserHostSession implements HostSession {
 class BrowserAgentSession implements AgentSession {
     constructor(private bus: MessageBus, private sessionId: string) {}
 
-    async close(): Promise<void> {
-        await this.bus.callMethod(
-            "re.frida.AgentSession17",
-            `/re/frida/AgentSession/${this.sessionId}`,
-            "re.frida.AgentSession17",
-            "Close"
-        );
+    async close(callOptions?: CallOptions): Promise<void> {
+        await this.call("Close", [], callOptions);
     }
 
-    async resume(rxBatchId: number): Promise<number> {
-        const result = await this.bus.callMethod(
-            "re.frida.AgentSession17",
-            `/re/frida/AgentSession/${this.sessionId}`,
-            "re.frida.AgentSession17",
-            "Resume",
-            [rxBatchId]
-        );
+    async resume(rxBatchId: number, callOptions?: CallOptions): Promise<number> {
+        const result = await this.call("Resume", [rxBatchId], callOptions);
         return result[0];
     }
 
-    async createScript(source: string, options: VariantDict): Promise<[number]> {
-        const result = await this.bus.callMethod(
-            "re.frida.AgentSession17",
-            `/re/frida/AgentSession/${this.sessionId}`,
-            "re.frida.AgentSession17",
-            "CreateScript",
-            [source, options]
-        );
+    async enableChildGating(callOptions?: CallOptions): Promise<void> {
+        await this.call("EnableChildGating", [], callOptions);
+    }
+
+    async disableChildGating(callOptions?: CallOptions): Promise<void> {
+        await this.call("DisableChildGating", [], callOptions);
+    }
+
+    async createScript(source: string, options: VariantDict, callOptions?: CallOptions): Promise<AgentScriptId> {
+        const result = await this.call("CreateScript", [source, options], callOptions);
         return result[0];
     }
 
-    async destroyScript(scriptId: [number]): Promise<void> {
-        await this.bus.callMethod(
-            "re.frida.AgentSession17",
-            `/re/frida/AgentSession/${this.sessionId}`,
-            "re.frida.AgentSession17",
-            "DestroyScript",
-            [scriptId]
-        );
+    async createScriptFromBytes(bytes: Uint8Array, options: VariantDict, callOptions?: CallOptions): Promise<AgentScriptId> {
+        const result = await this.call("CreateScriptFromBytes", [bytes, options], callOptions);
+        return result[0];
     }
 
-    async loadScript(scriptId: [number]): Promise<void> {
-        await this.bus.callMethod(
-            "re.frida.AgentSession17",
-            `/re/frida/AgentSession/${this.sessionId}`,
-            "re.frida.AgentSession17",
-            "LoadScript",
-            [scriptId]
-        );
+    async compileScript(source: string, options: VariantDict, callOptions?: CallOptions): Promise<Uint8Array> {
+        const result = await this.call("CompileScript", [source, options], callOptions);
+        return result[0];
     }
 
-    async postMessages(messages: any[], batchId: number): Promise<void> {
-        await this.bus.callMethod(
-            "re.frida.AgentSession17",
-            `/re/frida/AgentSession/${this.sessionId}`,
-            "re.frida.AgentSession17",
-            "PostMessages",
-            [messages, batchId]
-        );
+    async snapshotScript(embedScript: string, options: VariantDict, callOptions?: CallOptions): Promise<Uint8Array> {
+        const result = await this.call("SnapshotScript", [embedScript, options], callOptions);
+        return result[0];
     }
 
-    async offerPeerConnection(offerSdp: string, options: VariantDict): Promise<string> {
-        const result = await this.bus.callMethod(
-            "re.frida.AgentSession17",
-            `/re/frida/AgentSession/${this.sessionId}`,
-            "re.frida.AgentSession17",
-            "OfferPeerConnection",
-            [offerSdp, options]
-        );
+    async destroyScript(scriptId: AgentScriptId, callOptions?: CallOptions): Promise<void> {
+        await this.call("DestroyScript", [scriptId], callOptions);
+    }
+
+    async loadScript(scriptId: AgentScriptId, callOptions?: CallOptions): Promise<void> {
+        await this.call("LoadScript", [scriptId], callOptions);
+    }
+
+    async eternalizeScript(scriptId: AgentScriptId, callOptions?: CallOptions): Promise<void> {
+        await this.call("EternalizeScript", [scriptId], callOptions);
+    }
+
+    async enableDebugger(scriptId: AgentScriptId, callOptions?: CallOptions): Promise<void> {
+        await this.call("EnableDebugger", [scriptId], callOptions);
+    }
+
+    async disableDebugger(scriptId: AgentScriptId, callOptions?: CallOptions): Promise<void> {
+        await this.call("DisableDebugger", [scriptId], callOptions);
+    }
+
+    async postMessages(messages: AgentMessageRecord[], batchId: number, callOptions?: CallOptions): Promise<void> {
+        await this.call("PostMessages", [messages, batchId], callOptions);
+    }
+
+    async joinPortal(address: string, options: VariantDict, callOptions?: CallOptions): Promise<PortalMembershipId> {
+        const result = await this.call("JoinPortal", [address, options], callOptions);
         return result[0];
     }
 
-    async addCandidates(candidateSdps: string[]): Promise<void> {
-        await this.bus.callMethod(
-            "re.frida.AgentSession17",
+    async leavePortal(membershipId: PortalMembershipId, callOptions?: CallOptions): Promise<void> {
+        await this.call("LeavePortal", [membershipId], callOptions);
+    }
+
+    async offerPeerConnection(offerSdp: string, options: VariantDict, callOptions?: CallOptions): Promise<string> {
+        const result = await this.call("OfferPeerConnection", [offerSdp, options], callOptions);
+        return result[0];
+    }
+
+    async addCandidates(candidateSdps: string[], callOptions?: CallOptions): Promise<void> {
+        await this.call("AddCandidates", [candidateSdps], callOptions);
+    }
+
+    async notifyCandidateGatheringDone(callOptions?: CallOptions): Promise<void> {
+        await this.call("NotifyCandidateGatheringDone", [], callOptions);
+    }
+
+    async beginMigration(callOptions?: CallOptions): Promise<void> {
+        await this.call("BeginMigration", [], callOptions);
+    }
+
+    async commitMigration(callOptions?: CallOptions): Promise<void> {
+        await this.call("CommitMigration", [], callOptions);
+    }
+
+    private call(method: AgentSessionMethod, args: any[] = [], options?: CallOptions): Promise<any[]> {
+        return this.bus.callMethod(
+            AgentSessionInterface.name,
             `/re/frida/AgentSession/${this.sessionId}`,
-            "re.frida.AgentSession17",
-            "AddCandidates",
-            [candidateSdps]
+            AgentSessionInterface.name,
+            method,
+            args,
+            options
         );
     }
+}
 
-    async notifyCandidateGatheringDone(): Promise<void> {
-        await this.bus.callMethod(
-            "re.frida.AgentSession17",
-            `/re/frida/AgentSession/${this.sessionId}`,
-            "re.frida.AgentSession17",
-            "NotifyCandidateGatheringDone"
+class BrowserChannelSession implements ChannelSession {
+    constructor(private bus: MessageBus, private channelId: number) {}
+
+    async close(callOptions?: CallOptions): Promise<void> {
+        await this.call("Close", [], callOptions);
+    }
+
+    async post(data: Uint8Array, callOptions?: CallOptions): Promise<void> {
+        await this.call("Post", [data], callOptions);
+    }
+
+    private call(method: ChannelMethod, args: any[] = [], options?: CallOptions): Promise<any[]> {
+        return this.bus.callMethod(
+            ChannelInterface.name,
+            `/re/frida/Channel/${this.channelId}`,
+            ChannelInterface.name,
+            method,
+            args,
+            options
         );
     }
+}
 
-    async beginMigration(): Promise<void> {
-        await this.bus.callMethod(
-            "re.frida.AgentSession17",
-            `/re/frida/AgentSession/${this.sessionId}`,
-            "re.frida.AgentSession17",
-            "BeginMigration"
+class BrowserServiceSession implements ServiceSession {
+    constructor(private bus: MessageBus, private serviceId: number) {}
+
+    async activate(callOptions?: CallOptions): Promise<void> {
+        await this.call("Activate", [], callOptions);
+    }
+
+    async cancel(callOptions?: CallOptions): Promise<void> {
+        await this.call("Cancel", [], callOptions);
+    }
+
+    async request(parameters: Variant, callOptions?: CallOptions): Promise<Variant> {
+        const result = await this.call("Request", [parameters], callOptions);
+        return result[0];
+    }
+
+    private call(method: ServiceMethod, args: any[] = [], options?: CallOptions): Promise<any[]> {
+        return this.bus.callMethod(
+            ServiceInterface.name,
+            `/re/frida/Service/${this.serviceId}`,
+            ServiceInterface.name,
+            method,
+            args,
+            options
         );
     }
+}
 
-    async commitMigration(): Promise<void> {
-        await this.bus.callMethod(
-            "re.frida.AgentSession17",
-            `/re/frida/AgentSession/${this.sessionId}`,
-            "re.frida.AgentSession17",
-            "CommitMigration"
+class BrowserBusSession implements BusSession {
+    constructor(private bus: MessageBus) {}
+
+    async attach(callOptions?: CallOptions): Promise<void> {
+        await this.call("Attach", [], callOptions);
+    }
+
+    async post(json: string, hasData: boolean, data: Uint8Array, callOptions?: CallOptions): Promise<void> {
+        await this.call("Post", [json, hasData, data], callOptions);
+    }
+
+    private call(method: BusSessionMethod, args: any[] = [], options?: CallOptions): Promise<any[]> {
+        return this.bus.callMethod(
+            BusSessionInterface.name,
+            "/re/frida/BusSession",
+            BusSessionInterface.name,
+            method,
+            args,
+            options
         );
     }
 }
 
 export class Client {
+    spawnAdded: Signal<SpawnAddedHandler>;
+    spawnRemoved: Signal<SpawnRemovedHandler>;
+    childAdded: Signal<ChildAddedHandler>;
+    childRemoved: Signal<ChildRemovedHandler>;
+    processCrashed: Signal<ProcessCrashedHandler>;
+    output: Signal<OutputHandler>;
+    uninjected: Signal<UninjectedHandler>;
+
+    readonly bus: Bus;
+
+    _events = new BrowserEventEmitter();
+
     private readonly _serverUrl: string;
+    private readonly _transportFactory: TransportFactory;
     private readonly _token: string | null = null;
 
     private _hostConnectionRequest: Promise<HostConnection> | null = null;
+    private _abandonConnectionAttempt: (() => void) | null = null;
 
     private readonly _sessions = new Map<string, Session>();
 
+    private readonly _reconnectPolicy: Required<ReconnectOptions> | null;
+
+    readonly _logger: Logger;
+    private _reconnecting = false;
+    private _closed = false;
+
+    private readonly _agentMessageListeners = new Map<string, () => void>();
+    private readonly _channels = new Set<Channel>();
+    private readonly _services = new Set<Service>();
+
     constructor(host: string, options: ClientOptions = {}) {
-        const { tls = "auto" } = options;
-        let scheme: string = 'ws'
-        // switch (tls) {
-        //     case "auto":
-        //         scheme = (typeof location !== "undefined" && location.protocol === "https:") ? "wss" : "ws";
-        //         break;
-        //     case "enabled":
-        //         scheme = "wss";
-        //         break;
-        //     case "disabled":
-        //         scheme = "ws";
-        //         break;
-        // }
-        this._serverUrl = `${scheme}://${host}/ws`;
+        this._serverUrl = makeServerUrl(host, options);
+        this._transportFactory = options.transport ?? webSocketTransport();
+        this._logger = new Logger(options.logger ?? null);
 
         if (options.token !== undefined) {
             this._token = options.token;
         }
+
+        const { reconnect = {} } = options;
+        this._reconnectPolicy = (reconnect !== false) ? { ...defaultReconnectPolicy, ...reconnect } : null;
+
+        this.spawnAdded = new Signal<SpawnAddedHandler>(this._events, "spawn-added");
+        this.spawnRemoved = new Signal<SpawnRemovedHandler>(this._events, "spawn-removed");
+        this.childAdded = new Signal<ChildAddedHandler>(this._events, "child-added");
+        this.childRemoved = new Signal<ChildRemovedHandler>(this._events, "child-removed");
+        this.processCrashed = new Signal<ProcessCrashedHandler>(this._events, "process-crashed");
+        this.output = new Signal<OutputHandler>(this._events, "output");
+        this.uninjected = new Signal<UninjectedHandler>(this._events, "uninjected");
+
+        this.bus = new Bus(this);
+    }
+
+    async getFrontmostApplication(options: FrontmostQueryOptions = {}, callOptions: CallOptions = {}): Promise<Application | null> {
+        const connection = await this._getHostConnection(callOptions);
+
+        const rawOptions: VariantDict = {};
+        const { scope } = options;
+        if (scope !== undefined) {
+            rawOptions.scope = new Variant("s", scope);
+        }
+
+        const rawApplication = await connection.session.getFrontmostApplication(rawOptions, callOptions);
+        if (rawApplication[0].length === 0) {
+            return null;
+        }
+
+        return parseApplication(rawApplication);
+    }
+
+    async enumerateApplications(options: ApplicationQueryOptions = {}, callOptions: CallOptions = {}): Promise<Application[]> {
+        const connection = await this._getHostConnection(callOptions);
+
+        const rawOptions: VariantDict = {};
+        const { identifiers, scope } = options;
+        if (identifiers !== undefined) {
+            rawOptions.identifiers = new Variant("as", identifiers);
+        }
+        if (scope !== undefined) {
+            rawOptions.scope = new Variant("s", scope);
+        }
+
+        const rawApplications = await connection.session.enumerateApplications(rawOptions, callOptions);
+
+        return rawApplications.map(parseApplication);
     }
 
-    async enumerateProcesses(options: ProcessQueryOptions = {}): Promise<Process[]> {
-        const connection = await this._getHostConnection();
+    async enumerateProcesses(options: ProcessQueryOptions = {}, callOptions: CallOptions = {}): Promise<Process[]> {
+        const connection = await this._getHostConnection(callOptions);
 
         const rawOptions: VariantDict = {};
         const { pids, scope } = options;
@@ -460,15 +668,15 @@ export class Client {
             rawOptions.scope = new Variant("s", scope);
         }
 
-        const rawProcesses = await connection.session.enumerateProcesses(rawOptions);
+        const rawProcesses = await connection.session.enumerateProcesses(rawOptions, callOptions);
 
         return rawProcesses.map(([pid, name, parameters]) => {
             return { pid, name, parameters };
         });
     }
 
-    async attach(pid: number, options: SessionOptions = {}): Promise<Session> {
-        const connection = await this._getHostConnection();
+    async attach(pid: number, options: SessionOptions = {}, callOptions: CallOptions = {}): Promise<Session> {
+        const connection = await this._getHostConnection(callOptions);
 
         const rawOptions: VariantDict = {};
         const { realm, persistTimeout } = options;
@@ -479,135 +687,450 @@ export class Client {
             rawOptions["persist-timeout"] = new Variant("u", persistTimeout);
         }
 
-        const sessionId = await connection.session.attach(pid, rawOptions);
+        const sessionId = await connection.session.attach(pid, rawOptions, callOptions);
 
         const agentSession = new BrowserAgentSession(connection.bus, sessionId[0]);
 
         const session = new Session(this, agentSession, pid, sessionId[0], persistTimeout ?? 0, connection);
         this._sessions.set(session.id, session);
         
-        const dbusClient = connection.bus as any;
-        if (dbusClient.addSignalListener) {
-            const signalHandler = (args: any[]) => {
-                console.log('Agent session signal handler called with args:', args);
-                if (args && args.length >= 2) {
-                    const [messages, batchId] = args;
-                    console.log('Processing incoming messages:', { messages, batchId });
-                    session._handleIncomingMessages(messages, batchId);
-                } else {
-                    console.log('Signal args format unexpected:', args);
+        this._listenForAgentMessages(connection.bus, session);
+        
+        session._events.once("detached", () => {
+            this._sessions.delete(session.id);
+            this._agentMessageListeners.get(session.id)?.();
+            this._agentMessageListeners.delete(session.id);
+        });
+
+        return session;
+    }
+
+    async enableSpawnGating(callOptions: CallOptions = {}): Promise<void> {
+        const connection = await this._getHostConnection(callOptions);
+        await connection.session.enableSpawnGating(callOptions);
+    }
+
+    async disableSpawnGating(callOptions: CallOptions = {}): Promise<void> {
+        const connection = await this._getHostConnection(callOptions);
+        await connection.session.disableSpawnGating(callOptions);
+    }
+
+    async enumeratePendingSpawn(callOptions: CallOptions = {}): Promise<Spawn[]> {
+        const connection = await this._getHostConnection(callOptions);
+        const rawSpawns = await connection.session.enumeratePendingSpawn(callOptions);
+        return rawSpawns.map(parseSpawn);
+    }
+
+    async enumeratePendingChildren(callOptions: CallOptions = {}): Promise<Child[]> {
+        const connection = await this._getHostConnection(callOptions);
+        const rawChildren = await connection.session.enumeratePendingChildren(callOptions);
+        return rawChildren.map(parseChild);
+    }
+
+    async spawn(program: string, options: SpawnOptions = {}, callOptions: CallOptions = {}): Promise<number> {
+        const connection = await this._getHostConnection(callOptions);
+
+        const { argv, envp, env, cwd, stdio, aux } = options;
+        const rawOptions: HostSpawnOptions = [
+            argv !== undefined,
+            argv ?? [],
+            envp !== undefined,
+            formatEnvironment(envp),
+            env !== undefined,
+            formatEnvironment(env),
+            cwd ?? "",
+            (stdio === Stdio.Pipe) ? 1 : 0,
+            toVariantDict(aux ?? {}),
+        ];
+
+        return await connection.session.spawn(program, rawOptions, callOptions);
+    }
+
+    async resume(pid: number, callOptions: CallOptions = {}): Promise<void> {
+        const connection = await this._getHostConnection(callOptions);
+        await connection.session.resume(pid, callOptions);
+    }
+
+    async kill(pid: number, callOptions: CallOptions = {}): Promise<void> {
+        const connection = await this._getHostConnection(callOptions);
+        await connection.session.kill(pid, callOptions);
+    }
+
+    async injectLibraryFile(pid: number, path: string, entrypoint: string, data: string, callOptions: CallOptions = {}): Promise<number> {
+        const connection = await this._getHostConnection(callOptions);
+        const [id] = await connection.session.injectLibraryFile(pid, path, entrypoint, data, callOptions);
+        return id;
+    }
+
+    async injectLibraryBlob(pid: number, blob: ArrayBuffer | Uint8Array | Blob, entrypoint: string, data: string, callOptions: CallOptions = {}): Promise<number> {
+        let bytes: Uint8Array;
+        if (blob instanceof Uint8Array) {
+            bytes = blob;
+        } else if (blob instanceof ArrayBuffer) {
+            bytes = new Uint8Array(blob);
+        } else {
+            bytes = new Uint8Array(await blob.arrayBuffer());
+        }
+
+        const connection = await this._getHostConnection(callOptions);
+        const [id] = await connection.session.injectLibraryBlob(pid, bytes, entrypoint, data, callOptions);
+        return id;
+    }
+
+    async querySystemParameters(callOptions: CallOptions = {}): Promise<any> {
+        const connection = await this._getHostConnection(callOptions);
+        const result = await connection.session.querySystemParameters(callOptions);
+        return parseVariantDict(result);
+    }
+
+    async openChannel(address: string, options: ChannelOptions = {}, callOptions: CallOptions = {}): Promise<Channel> {
+        const connection = await this._getHostConnection(callOptions);
+        const [id] = await connection.session.openChannel(address, callOptions);
+
+        const channel = new Channel(new BrowserChannelSession(connection.bus, id), id, address, options);
+        this._channels.add(channel);
+
+        const signalPath = `/re/frida/Channel/${id}`;
+        const onMessage: BusSignalHandler = ([data]) => channel._onMessage(data);
+        connection.bus.addSignalListener(signalPath, ChannelInterface.name, "Message", onMessage);
+
+        channel._events.once("closed", () => {
+            this._channels.delete(channel);
+            connection.bus.removeSignalListener(signalPath, ChannelInterface.name, "Message", onMessage);
+        });
+
+        return channel;
+    }
+
+    async openService(address: string, callOptions: CallOptions = {}): Promise<Service> {
+        const connection = await this._getHostConnection(callOptions);
+        const [id] = await connection.session.openService(address, callOptions);
+
+        const service = new Service(new BrowserServiceSession(connection.bus, id), id, address);
+        this._services.add(service);
+
+        const signalPath = `/re/frida/Service/${id}`;
+        const onClose: BusSignalHandler = () => service._onClose();
+        const onMessage: BusSignalHandler = ([message]) => service._onMessage(message);
+        connection.bus.addSignalListener(signalPath, ServiceInterface.name, "Close", onClose);
+        connection.bus.addSignalListener(signalPath, ServiceInterface.name, "Message", onMessage);
+
+        service._events.once("close", () => {
+            this._services.delete(service);
+            connection.bus.removeSignalListener(signalPath, ServiceInterface.name, "Close", onClose);
+            connection.bus.removeSignalListener(signalPath, ServiceInterface.name, "Message", onMessage);
+        });
+
+        return service;
+    }
+
+    async close(): Promise<void> {
+        if (this._closed) {
+            return;
+        }
+        this._closed = true;
+
+        await Promise.all(Array.from(this._channels).map(channel => channel.close()));
+        await Promise.all(Array.from(this._services).map(service => service.cancel().catch(() => {})));
+        this.bus._onDetached();
+
+        await Promise.all(Array.from(this._sessions.values()).map(session => session.detach()));
+
+        const request = this._hostConnectionRequest;
+        this._hostConnectionRequest = null;
+        if (this._abandonConnectionAttempt !== null) {
+            this._abandonConnectionAttempt();
+        } else if (request !== null) {
+            try {
+                const connection = await request;
+                connection.bus.close();
+            } catch (error) {
+                this._logger.warning(LogCategory.Transport, `Connection to ${this._serverUrl} failed before it could be closed`, error);
+            }
+        }
+
+        this._logger.info(LogCategory.Transport, `Closed connection to ${this._serverUrl}`);
+    }
+
+    async [asyncDispose](): Promise<void> {
+        await this.close();
+    }
+
+    /**
+     * Resolves once connected. `callOptions` bound the wait, so that a caller can
+     * give up on a device that never answers while the socket is still connecting.
+     */
+    async _getHostConnection(callOptions: CallOptions = {}): Promise<HostConnection> {
+        if (this._closed) {
+            throw new InvalidOperationError("Client is closed");
+        }
+        if (this._hostConnectionRequest === null) {
+            const request = this._doGetHostConnection();
+            this._hostConnectionRequest = request;
+            request.catch(() => {
+                if (this._hostConnectionRequest === request) {
+                    this._hostConnectionRequest = null;
                 }
+            });
+        }
+        const request = this._hostConnectionRequest;
+
+        const { signal, timeout = DEFAULT_CALL_TIMEOUT } = callOptions;
+        if (signal?.aborted) {
+            throw new CancelledError(`Connecting to ${this._serverUrl} was cancelled`);
+        }
+
+        return new Promise((resolve, reject) => {
+            let timer: ReturnType<typeof setTimeout> | null = null;
+
+            const onAbort = () => {
+                cleanup();
+                reject(new CancelledError(`Connecting to ${this._serverUrl} was cancelled`));
+            };
+
+            const cleanup = () => {
+                if (timer !== null) {
+                    clearTimeout(timer);
+                }
+                signal?.removeEventListener("abort", onAbort);
             };
-            const signalPath = `/re/frida/AgentSession/${sessionId[0]}`;
-            console.log('Registering D-Bus signal listener:', {
-                objectPath: signalPath,
-                interfaceName: "re.frida.AgentSession17",
-                memberName: "Message"
+
+            signal?.addEventListener("abort", onAbort);
+
+            if (timeout > 0) {
+                timer = setTimeout(() => {
+                    cleanup();
+                    reject(new TimedOutError(`Timed out connecting to ${this._serverUrl}`));
+                }, timeout);
+            }
+
+            request.then(connection => {
+                cleanup();
+                resolve(connection);
+            }, error => {
+                cleanup();
+                reject(error);
             });
-            dbusClient.addSignalListener(
-                signalPath,
-                "re.frida.AgentSession17",
-                "Message",
-                signalHandler
-            );
+        });
+    }
+
+    async _attachBus(bus: Bus, callOptions: CallOptions): Promise<BusSession> {
+        const connection = await this._getHostConnection(callOptions);
+        const session = new BrowserBusSession(connection.bus);
+
+        const signalPath = "/re/frida/BusSession";
+        const onMessage: BusSignalHandler = ([json, hasData, data]) => bus._onMessage(json, hasData, data);
+        connection.bus.addSignalListener(signalPath, BusSessionInterface.name, "Message", onMessage);
+
+        try {
+            await session.attach(callOptions);
+        } catch (error) {
+            connection.bus.removeSignalListener(signalPath, BusSessionInterface.name, "Message", onMessage);
+            throw error;
         }
-        
-        session._events.once("destroyed", () => {
-            this._sessions.delete(session.id);
+
+        bus._events.once("detached", () => {
+            connection.bus.removeSignalListener(signalPath, BusSessionInterface.name, "Message", onMessage);
         });
 
         return session;
     }
 
-    async querySystemParameters(): Promise<any> {
-        const connection = await this._getHostConnection();
-        const result = await connection.session.querySystemParameters();
-        
-        const parsed: any = {};
-        if (result && Array.isArray(result)) {
-            for (const [key, value] of result) {
-                if (Array.isArray(value) && value.length >= 2) {
-                    parsed[key] = this._parseVariantValue(value[1]);
-                }
+    private _listenForAgentMessages(bus: MessageBus, session: Session): void {
+        this._agentMessageListeners.get(session.id)?.();
+        this._agentMessageListeners.set(session.id, this._addAgentMessageListener(bus, session));
+    }
+
+    private _addAgentMessageListener(bus: MessageBus, session: Session): () => void {
+        const signalHandler = (args: any[]) => {
+            if (args && args.length >= 2) {
+                const [messages, batchId] = args;
+                session._handleIncomingMessages(messages, batchId);
+            } else {
+                this._logger.warning(LogCategory.Session, `Unexpected Message signal arguments for session ${session.id}`, args);
             }
+        };
+        const signalPath = `/re/frida/AgentSession/${session.id}`;
+        bus.addSignalListener(
+            signalPath,
+            AgentSessionInterface.name,
+            "Message",
+            signalHandler
+        );
+        return () => {
+            bus.removeSignalListener(signalPath, AgentSessionInterface.name, "Message", signalHandler);
+        };
+    }
+
+    _createPeerSession(session: Session, transport: Transport): AgentSession {
+        const bus = new BrowserDBusClient(transport, this._logger);
+        // The WebSocket listener stays in place, so an abandoned migration has nothing to undo.
+        // The peer one goes with the data channel, which is closed on detach as well.
+        const removeListener = this._addAgentMessageListener(bus, session);
+        transport.once("close", removeListener);
+        return new BrowserAgentSession(bus, session.id);
+    }
+
+    private _onConnectionLost(): void {
+        if (this._closed) {
+            return;
         }
-        return parsed;
-    }
-
-    private _parseVariantValue(value: any): any {
-        if (Array.isArray(value)) {
-            if (value.length >= 2 && typeof value[0] === 'object' && value[0].typeCode) {
-                const typeInfo = value[0];
-                const data = value[1];
-                
-                if (typeInfo.typeCode === 's') {
-                    return data;
-                } else if (typeInfo.typeCode === 'a' && Array.isArray(data)) {
-                    const result: any = {};
-                    for (const item of data) {
-                        if (Array.isArray(item) && item.length >= 2) {
-                            const itemKey = item[0];
-                            const itemValue = item[1];
-                            result[itemKey] = this._parseVariantValue(itemValue);
-                        }
-                    }
-                    return result;
+
+        this._logger.warning(LogCategory.Transport, `Connection to ${this._serverUrl} lost`);
+
+        this._hostConnectionRequest = null;
+
+        for (const channel of Array.from(this._channels)) {
+            channel._onClosed(new TransportError(`Connection to ${this._serverUrl} lost`));
+        }
+        for (const service of Array.from(this._services)) {
+            service._onClose();
+        }
+        this.bus._onDetached();
+
+        let interrupted = false;
+        for (const session of this._sessions.values()) {
+            if (session.persistTimeout !== 0 && this._reconnectPolicy !== null) {
+                session._onInterrupted();
+                interrupted = true;
+            } else {
+                session._onDetached(SessionDetachReason.ConnectionTerminated, null);
+            }
+        }
+
+        if (interrupted && !this._reconnecting) {
+            this._reconnect().catch(error => {
+                this._reconnecting = false;
+                this._logger.error(LogCategory.Session, "Reconnecting failed", error);
+            });
+        }
+    }
+
+    private async _reconnect(): Promise<void> {
+        const { maxAttempts, initialDelay, maxDelay, multiplier } = this._reconnectPolicy!;
+
+        this._reconnecting = true;
+
+        let attempt = 0;
+        let delay = initialDelay;
+        while (true) {
+            const sessions = Array.from(this._sessions.values()).filter(session => session.isInterrupted);
+            if (sessions.length === 0) {
+                break;
+            }
+
+            if (attempt === maxAttempts) {
+                for (const session of sessions) {
+                    session._onDetached(SessionDetachReason.ConnectionTerminated, null);
                 }
-                return data;
-            } else if (Array.isArray(value)) {
-                const result: any = {};
-                for (const item of value) {
-                    if (Array.isArray(item) && item.length >= 2) {
-                        const itemKey = item[0];
-                        const itemValue = item[1];
-                        result[itemKey] = this._parseVariantValue(itemValue);
-                    }
+                break;
+            }
+
+            await sleep(delay);
+            attempt++;
+            this._logger.info(LogCategory.Transport, `Reconnect attempt ${attempt} of ${maxAttempts}`);
+            delay = Math.min(delay * multiplier, maxDelay);
+
+            let connection: HostConnection;
+            try {
+                connection = await this._getHostConnection();
+            } catch (error) {
+                continue;
+            }
+
+            for (const session of sessions) {
+                if (!session.isInterrupted) {
+                    continue;
+                }
+
+                try {
+                    await connection.session.reattach([session.id]);
+                    this._listenForAgentMessages(connection.bus, session);
+                    await session._reattach(new BrowserAgentSession(connection.bus, session.id));
+                } catch (error) {
+                    this._logger.warning(LogCategory.Session, `Unable to reattach session ${session.id}`, error);
+                    session._onDetached(SessionDetachReason.ConnectionTerminated, null);
                 }
-                return result;
             }
+
+            attempt = 0;
+            delay = initialDelay;
         }
-        return value;
+
+        this._reconnecting = false;
     }
 
-    async _getHostConnection(): Promise<HostConnection> {
-        if (this._hostConnectionRequest === null) {
-            this._hostConnectionRequest = this._doGetHostConnection();
-        }
-        return this._hostConnectionRequest;
+    private _subscribeHostSignals(bus: MessageBus): void {
+        const listen = (memberName: HostSessionSignal, handler: BusSignalHandler) => {
+            bus.addSignalListener("/re/frida/HostSession", HostSessionInterface.name, memberName, handler);
+        };
+
+        listen("SpawnAdded", ([info]) => this._events.emit("spawn-added", parseSpawn(info)));
+        listen("SpawnRemoved", ([info]) => this._events.emit("spawn-removed", parseSpawn(info)));
+        listen("ChildAdded", ([info]) => this._events.emit("child-added", parseChild(info)));
+        listen("ChildRemoved", ([info]) => this._events.emit("child-removed", parseChild(info)));
+        listen("ProcessCrashed", ([info]) => this._events.emit("process-crashed", parseCrash(info)));
+        listen("Output", ([pid, fd, data]) => this._events.emit("output", pid, fd, toArrayBuffer(data)));
+        listen("Uninjected", ([id]) => this._events.emit("uninjected", id[0]));
+        listen("AgentSessionDetached", ([id, reason, crash]) => {
+            const session = this._sessions.get(id[0]);
+            if (session !== undefined) {
+                session._onDetached(parseSessionDetachReason(reason), (crash[0] !== 0) ? parseCrash(crash) : null);
+            }
+        });
     }
 
     private async _doGetHostConnection(): Promise<HostConnection> {
-        const ws = new WebSocketWrapper(this._serverUrl);
+        const ws = this._transportFactory(this._serverUrl);
         
         return new Promise((resolve, reject) => {
-            ws.once('error', reject);
-            
-            ws.ws.addEventListener('open', async () => {
-                ws.once("close", () => {
-                    this._hostConnectionRequest = null;
+            // Lets close() give up on a socket that is still connecting instead of waiting on it.
+            this._abandonConnectionAttempt = () => {
+                this._abandonConnectionAttempt = null;
+                ws.close();
+                reject(new InvalidOperationError("Client is closed"));
+            };
 
-                    for (const session of this._sessions.values()) {
-                        session._onDetached(SessionDetachReason.ConnectionTerminated, null);
-                    }
+            ws.once('error', () => {
+                this._abandonConnectionAttempt = null;
+                this._logger.error(LogCategory.Transport, `Unable to connect to ${this._serverUrl}`);
+                reject(new TransportError(`Unable to connect to ${this._serverUrl}`));
+            });
+
+            ws.once('open', async () => {
+                this._abandonConnectionAttempt = null;
+                ws.once("close", () => {
+                    this._onConnectionLost();
                 });
 
-                const bus = new BrowserDBusClient(ws);
+                this._logger.info(LogCategory.Transport, `Connected to ${this._serverUrl}`);
+
+                const bus = new BrowserDBusClient(ws, this._logger);
+
+                if (this._closed) {
+                    bus.close();
+                    reject(new InvalidOperationError("Client is closed"));
+                    return;
+                }
 
                 if (this._token !== null) {
                     try {
                         await bus.callMethod(
-                            "re.frida.AuthenticationService16",
+                            AuthenticationServiceInterface.name,
                             "/re/frida/AuthenticationService",
-                            "re.frida.AuthenticationService16",
+                            AuthenticationServiceInterface.name,
                             "Authenticate",
                             [this._token]
                         );
                     } catch (error) {
+                        bus.close();
                         reject(error);
                         return;
                     }
                 }
 
+                this._subscribeHostSignals(bus);
+
                 const session = new BrowserHostSession(bus);
 
                 resolve({ bus, session });
@@ -616,9 +1139,134 @@ export class Client {
     }
 }
 
+function makeServerUrl(host: string, options: ClientOptions): string {
+    if (/^wss?:\/\//i.test(host)) {
+        return host;
+    }
+
+    const { tls = TransportLayerSecurity.Auto, path = "/ws" } = options;
+    let scheme: string;
+    switch (tls) {
+        case TransportLayerSecurity.Auto:
+            scheme = (typeof location !== "undefined" && location.protocol === "https:") ? "wss" : "ws";
+            break;
+        case TransportLayerSecurity.Enabled:
+            scheme = "wss";
+            break;
+        case TransportLayerSecurity.Disabled:
+            scheme = "ws";
+            break;
+    }
+
+    return `${scheme}://${host}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
+const DEFAULT_CALL_TIMEOUT = 30000;
+
+const defaultReconnectPolicy: Required<ReconnectOptions> = {
+    maxAttempts: 10,
+    initialDelay: 1000,
+    maxDelay: 30000,
+    multiplier: 2,
+};
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function parseSpawn([pid, identifier]: HostSpawnInfo): Spawn {
+    return {
+        pid,
+        identifier: (identifier.length > 0) ? identifier : null,
+    };
+}
+
+function parseChild([pid, parentPid, origin, identifier, path, hasArgv, argv, hasEnvp, envp]: HostChildInfo): Child {
+    return {
+        pid,
+        parentPid,
+        origin: childOrigins[origin],
+        identifier: (identifier.length > 0) ? identifier : null,
+        path: (path.length > 0) ? path : null,
+        argv: hasArgv ? argv : null,
+        envp: hasEnvp ? parseEnvironment(envp) : null,
+    };
+}
+
+const childOrigins = [ChildOrigin.Fork, ChildOrigin.Exec, ChildOrigin.Spawn];
+
+function parseCrash([pid, processName, summary, report, parameters]: CrashInfo): Crash {
+    return { pid, processName, summary, report, parameters };
+}
+
+function parseSessionDetachReason(reason: number): SessionDetachReason {
+    switch (reason) {
+        case 1:
+            return SessionDetachReason.ApplicationRequested;
+        case 2:
+            return SessionDetachReason.ProcessReplaced;
+        case 3:
+            return SessionDetachReason.ProcessTerminated;
+        case 5:
+            return SessionDetachReason.DeviceLost;
+        default:
+            return SessionDetachReason.ConnectionTerminated;
+    }
+}
+
+function parseApplication([identifier, name, pid, parameters]: HostApplicationInfo): Application {
+    const { icons: rawIcons, ...otherParameters } = parameters;
+    const icons = (rawIcons !== undefined) ? parseIcons(rawIcons.value) : [];
+    return { identifier, name, pid, parameters: otherParameters, icons };
+}
+
+function parseIcons(rawIcons: VariantDict[]): Icon[] {
+    return rawIcons.map(rawIcon => {
+        const { format, width = 0, height = 0, image } = parseVariantDict(rawIcon);
+        return new Icon(format as IconFormat, Number(width), Number(height), image);
+    });
+}
+
+function parseEnvironment(envp: string[]): { [name: string]: string } {
+    const env: { [name: string]: string } = {};
+    for (const entry of envp) {
+        const separatorIndex = entry.indexOf("=");
+        if (separatorIndex !== -1) {
+            env[entry.substring(0, separatorIndex)] = entry.substring(separatorIndex + 1);
+        }
+    }
+    return env;
+}
+
+function formatEnvironment(env: { [name: string]: string } | undefined): string[] {
+    if (env === undefined) {
+        return [];
+    }
+    return Object.entries(env).map(([name, value]) => `${name}=${value}`);
+}
+
+export type SpawnAddedHandler = (spawn: Spawn) => void;
+export type SpawnRemovedHandler = (spawn: Spawn) => void;
+export type ChildAddedHandler = (child: Child) => void;
+export type ChildRemovedHandler = (child: Child) => void;
+export type ProcessCrashedHandler = (crash: Crash) => void;
+export type OutputHandler = (pid: number, fd: number, data: ArrayBuffer) => void;
+export type UninjectedHandler = (id: number) => void;
+
 export interface ClientOptions {
     tls?: TransportLayerSecurity;
+    path?: string;
     token?: string;
+    transport?: TransportFactory;
+    logger?: LoggerOptions;
+    reconnect?: ReconnectOptions | false;
+}
+
+export interface ReconnectOptions {
+    maxAttempts?: number;
+    initialDelay?: number;
+    maxDelay?: number;
+    multiplier?: number;
 }
 
 export enum TransportLayerSecurity {
@@ -627,11 +1275,34 @@ export enum TransportLayerSecurity {
     Enabled = "enabled"
 }
 
+export interface FrontmostQueryOptions {
+    scope?: Scope;
+}
+
+export interface ApplicationQueryOptions {
+    identifiers?: string[];
+    scope?: Scope;
+}
+
 export interface ProcessQueryOptions {
     pids?: number[];
     scope?: Scope;
 }
 
+export interface SpawnOptions {
+    argv?: string[];
+    envp?: { [name: string]: string };
+    env?: { [name: string]: string };
+    cwd?: string;
+    stdio?: Stdio;
+    aux?: { [name: string]: any };
+}
+
+export enum Stdio {
+    Inherit = "inherit",
+    Pipe = "pipe"
+}
+
 export enum Scope {
     Minimal = "minimal",
     Metadata = "metadata",
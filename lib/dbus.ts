@@ -0,0 +1,316 @@
+import * as errors from "./errors";
+import { Variant, VariantDict } from "./protocol";
+
+import {
+    parseTypes,
+    serializeType,
+    BasicTypeCode,
+    ContainerTypeCode,
+} from 'd-bus-type-system';
+import type { CompleteType, DictEntryType } from 'd-bus-type-system';
+
+
+export interface InterfaceDescription {
+    name: string;
+    methods: { [name: string]: MethodDescription };
+    signals: { [name: string]: SignalDescription };
+}
+
+export interface MethodDescription {
+    in: string;
+    out: string;
+}
+
+export interface SignalDescription {
+    args: string;
+}
+
+export const HostSessionInterface = {
+    name: "re.frida.HostSession17",
+    methods: {
+        Ping: { in: "u", out: "" },
+        QuerySystemParameters: { in: "", out: "a{sv}" },
+        GetFrontmostApplication: { in: "a{sv}", out: "(ssua{sv})" },
+        EnumerateApplications: { in: "a{sv}", out: "a(ssua{sv})" },
+        EnumerateProcesses: { in: "a{sv}", out: "a(usa{sv})" },
+        EnableSpawnGating: { in: "", out: "" },
+        DisableSpawnGating: { in: "", out: "" },
+        EnumeratePendingSpawn: { in: "", out: "a(us)" },
+        EnumeratePendingChildren: { in: "", out: "a(uuissbasbas)" },
+        Spawn: { in: "s(basbasbassia{sv})", out: "u" },
+        Input: { in: "uay", out: "" },
+        Resume: { in: "u", out: "" },
+        Kill: { in: "u", out: "" },
+        Attach: { in: "ua{sv}", out: "(s)" },
+        Reattach: { in: "(s)", out: "" },
+        InjectLibraryFile: { in: "usss", out: "(u)" },
+        InjectLibraryBlob: { in: "uayss", out: "(u)" },
+        OpenChannel: { in: "s", out: "(u)" },
+        OpenService: { in: "s", out: "(u)" },
+        Unpair: { in: "", out: "" },
+    },
+    signals: {
+        SpawnAdded: { args: "(us)" },
+        SpawnRemoved: { args: "(us)" },
+        ChildAdded: { args: "(uuissbasbas)" },
+        ChildRemoved: { args: "(uuissbasbas)" },
+        ProcessCrashed: { args: "(usssa{sv})" },
+        Output: { args: "uiay" },
+        AgentSessionDetached: { args: "(s)i(usssa{sv})" },
+        Uninjected: { args: "(u)" },
+    },
+} as const satisfies InterfaceDescription;
+
+export const AgentSessionInterface = {
+    name: "re.frida.AgentSession17",
+    methods: {
+        Close: { in: "", out: "" },
+        Interrupt: { in: "", out: "" },
+        Resume: { in: "u", out: "u" },
+        EnableChildGating: { in: "", out: "" },
+        DisableChildGating: { in: "", out: "" },
+        CreateScript: { in: "sa{sv}", out: "(u)" },
+        CreateScriptFromBytes: { in: "aya{sv}", out: "(u)" },
+        CompileScript: { in: "sa{sv}", out: "ay" },
+        SnapshotScript: { in: "sa{sv}", out: "ay" },
+        DestroyScript: { in: "(u)", out: "" },
+        LoadScript: { in: "(u)", out: "" },
+        EternalizeScript: { in: "(u)", out: "" },
+        EnableDebugger: { in: "(u)", out: "" },
+        DisableDebugger: { in: "(u)", out: "" },
+        PostMessages: { in: "a(i(u)sbay)u", out: "" },
+        JoinPortal: { in: "sa{sv}", out: "(u)" },
+        LeavePortal: { in: "(u)", out: "" },
+        OfferPeerConnection: { in: "sa{sv}", out: "s" },
+        AddCandidates: { in: "as", out: "" },
+        NotifyCandidateGatheringDone: { in: "", out: "" },
+        BeginMigration: { in: "", out: "" },
+        CommitMigration: { in: "", out: "" },
+    },
+    signals: {
+        Message: { args: "a(i(u)sbay)u" },
+    },
+} as const satisfies InterfaceDescription;
+
+export const AuthenticationServiceInterface = {
+    name: "re.frida.AuthenticationService16",
+    methods: {
+        Authenticate: { in: "s", out: "s" },
+    },
+    signals: {},
+} as const satisfies InterfaceDescription;
+
+export const ChannelInterface = {
+    name: "re.frida.Channel15",
+    methods: {
+        Close: { in: "", out: "" },
+        Post: { in: "ay", out: "" },
+    },
+    signals: {
+        Message: { args: "ay" },
+    },
+} as const satisfies InterfaceDescription;
+
+export const ServiceInterface = {
+    name: "re.frida.Service16",
+    methods: {
+        Activate: { in: "", out: "" },
+        Cancel: { in: "", out: "" },
+        Request: { in: "v", out: "v" },
+    },
+    signals: {
+        Close: { args: "" },
+        Message: { args: "v" },
+    },
+} as const satisfies InterfaceDescription;
+
+export const BusSessionInterface = {
+    name: "re.frida.BusSession16",
+    methods: {
+        Attach: { in: "", out: "" },
+        Post: { in: "sbay", out: "" },
+    },
+    signals: {
+        Message: { args: "sbay" },
+    },
+} as const satisfies InterfaceDescription;
+
+export type HostSessionMethod = keyof typeof HostSessionInterface.methods;
+export type HostSessionSignal = keyof typeof HostSessionInterface.signals;
+export type AgentSessionMethod = keyof typeof AgentSessionInterface.methods;
+export type ChannelMethod = keyof typeof ChannelInterface.methods;
+export type ServiceMethod = keyof typeof ServiceInterface.methods;
+export type BusSessionMethod = keyof typeof BusSessionInterface.methods;
+
+const knownInterfaces = new Map<string, InterfaceDescription>();
+for (const description of [HostSessionInterface, AgentSessionInterface, AuthenticationServiceInterface, ChannelInterface, ServiceInterface, BusSessionInterface]) {
+    knownInterfaces.set(description.name, description);
+}
+
+export function lookupMethod(interfaceName: string, memberName: string): MethodDescription {
+    const method = knownInterfaces.get(interfaceName)?.methods[memberName];
+    if (method === undefined) {
+        throw new Error(`Unknown D-Bus method: ${interfaceName}.${memberName}`);
+    }
+    return method;
+}
+
+const fridaErrors: { [name: string]: new (message: string, context?: errors.ErrorContext) => errors.FridaError } = {
+    "re.frida.Error.ServerNotRunning": errors.ServerNotRunningError,
+    "re.frida.Error.ExecutableNotFound": errors.ExecutableNotFoundError,
+    "re.frida.Error.ExecutableNotSupported": errors.ExecutableNotSupportedError,
+    "re.frida.Error.ProcessNotFound": errors.ProcessNotFoundError,
+    "re.frida.Error.ProcessNotResponding": errors.ProcessNotRespondingError,
+    "re.frida.Error.InvalidArgument": errors.InvalidArgumentError,
+    "re.frida.Error.InvalidOperation": errors.InvalidOperationError,
+    "re.frida.Error.PermissionDenied": errors.PermissionDeniedError,
+    "re.frida.Error.AddressInUse": errors.AddressInUseError,
+    "re.frida.Error.TimedOut": errors.TimedOutError,
+    "re.frida.Error.NotSupported": errors.NotSupportedError,
+    "re.frida.Error.Protocol": errors.ProtocolError,
+    "re.frida.Error.Transport": errors.TransportError,
+};
+
+export function makeDBusError(errorName: string, message: string, context: errors.ErrorContext): errors.FridaError {
+    const ErrorClass = fridaErrors[errorName] ?? errors.FridaError;
+    return new ErrorClass(message, { ...context, dbusErrorName: errorName });
+}
+
+export function marshalArgs(signature: string, args: any[]): { types: readonly CompleteType[], args: any[] } {
+    const types = (signature.length > 0) ? parseTypes(signature) : [];
+    if (args.length !== types.length) {
+        throw new Error(`Expected ${types.length} argument(s) for signature "${signature}", got ${args.length}`);
+    }
+    return {
+        types,
+        args: types.map((type, i) => marshalValue(type, args[i])),
+    };
+}
+
+export function unmarshalArgs(types: readonly CompleteType[] | undefined, args: readonly unknown[] | undefined): any[] {
+    if (types === undefined || args === undefined) {
+        return [];
+    }
+    return types.map((type, i) => unmarshalValue(type, args[i]));
+}
+
+function marshalValue(type: CompleteType | DictEntryType<any, any>, value: any): any {
+    switch (type.typeCode) {
+        case ContainerTypeCode.Array:
+            if (type.elementType.typeCode === BasicTypeCode.Uint8) {
+                return (value instanceof Uint8Array) ? value : Uint8Array.from(value as ArrayLike<number>);
+            }
+            if (isStringKeyedDict(type) && !Array.isArray(value)) {
+                return Object.entries(value ?? {}).map(entry => marshalValue(type.elementType, entry));
+            }
+            return Array.from(value as ArrayLike<any>, element => marshalValue(type.elementType, element));
+        case ContainerTypeCode.Struct:
+            return type.fieldTypes.map((fieldType: CompleteType, i: number) => marshalValue(fieldType, value[i]));
+        case ContainerTypeCode.DictEntry:
+            return [value[0], marshalValue(type.valueType, value[1])];
+        case ContainerTypeCode.Variant: {
+            const variant = value as Variant;
+            const [variantType] = parseTypes(variant.signature);
+            return [variantType, marshalValue(variantType, variant.value)];
+        }
+        default:
+            return value;
+    }
+}
+
+function unmarshalValue(type: CompleteType | DictEntryType<any, any>, value: any): any {
+    switch (type.typeCode) {
+        case ContainerTypeCode.Array:
+            if (type.elementType.typeCode === BasicTypeCode.Uint8) {
+                return value;
+            }
+            if (isStringKeyedDict(type)) {
+                const dict: { [key: string]: any } = {};
+                for (const [key, entryValue] of value) {
+                    dict[key] = unmarshalValue(type.elementType.valueType, entryValue);
+                }
+                return dict;
+            }
+            return value.map((element: any) => unmarshalValue(type.elementType, element));
+        case ContainerTypeCode.Struct:
+            return type.fieldTypes.map((fieldType: CompleteType, i: number) => unmarshalValue(fieldType, value[i]));
+        case ContainerTypeCode.DictEntry:
+            return [value[0], unmarshalValue(type.valueType, value[1])];
+        case ContainerTypeCode.Variant: {
+            const [variantType, variantValue] = value as [CompleteType, unknown];
+            return new Variant(serializeType(variantType), unmarshalValue(variantType, variantValue));
+        }
+        default:
+            return value;
+    }
+}
+
+export function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+    if (bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength) {
+        return bytes.buffer as ArrayBuffer;
+    }
+    return bytes.slice().buffer;
+}
+
+function isStringKeyedDict(type: { typeCode: ContainerTypeCode.Array, elementType: CompleteType | DictEntryType<any, any> }): boolean {
+    const { elementType } = type;
+    return elementType.typeCode === ContainerTypeCode.DictEntry && elementType.keyType.typeCode === BasicTypeCode.String;
+}
+
+export function toVariantDict(values: { [key: string]: any }): VariantDict {
+    const dict: VariantDict = {};
+    for (const [key, value] of Object.entries(values)) {
+        dict[key] = toVariant(value);
+    }
+    return dict;
+}
+
+export function toVariant(value: any): Variant {
+    if (value instanceof Variant) {
+        return value;
+    }
+    switch (typeof value) {
+        case "string":
+            return new Variant("s", value);
+        case "boolean":
+            return new Variant("b", value);
+        case "bigint":
+            return new Variant("x", value);
+        case "number":
+            return Number.isInteger(value) ? new Variant("x", BigInt(value)) : new Variant("d", value);
+    }
+    if (Array.isArray(value)) {
+        if (value.every(element => typeof element === "string")) {
+            return new Variant("as", value);
+        }
+        return new Variant("av", value.map(toVariant));
+    }
+    if (value instanceof Uint8Array) {
+        return new Variant("ay", value);
+    }
+    if (value !== null && typeof value === "object") {
+        return new Variant("a{sv}", toVariantDict(value));
+    }
+    throw new Error(`Unable to represent ${String(value)} as a D-Bus variant`);
+}
+
+export function parseVariantDict(dict: VariantDict): { [key: string]: any } {
+    const result: { [key: string]: any } = {};
+    for (const [key, variant] of Object.entries(dict)) {
+        result[key] = parseVariantValue(variant);
+    }
+    return result;
+}
+
+export function parseVariantValue(value: any): any {
+    if (value instanceof Variant) {
+        return parseVariantValue(value.value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(parseVariantValue);
+    }
+    if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+        return parseVariantDict(value);
+    }
+    return value;
+}
\ No newline at end of file
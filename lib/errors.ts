@@ -0,0 +1,37 @@
+export class FridaError extends Error {
+    dbusErrorName: string | null;
+    method: string | null;
+    objectPath: string | null;
+    serial: number | null;
+
+    constructor(message: string, context: ErrorContext = {}) {
+        super(message);
+        this.name = new.target.name;
+        this.dbusErrorName = context.dbusErrorName ?? null;
+        this.method = context.method ?? null;
+        this.objectPath = context.objectPath ?? null;
+        this.serial = context.serial ?? null;
+    }
+}
+
+export class ServerNotRunningError extends FridaError {}
+export class ExecutableNotFoundError extends FridaError {}
+export class ExecutableNotSupportedError extends FridaError {}
+export class ProcessNotFoundError extends FridaError {}
+export class ProcessNotRespondingError extends FridaError {}
+export class InvalidArgumentError extends FridaError {}
+export class InvalidOperationError extends FridaError {}
+export class PermissionDeniedError extends FridaError {}
+export class AddressInUseError extends FridaError {}
+export class TimedOutError extends FridaError {}
+export class NotSupportedError extends FridaError {}
+export class ProtocolError extends FridaError {}
+export class TransportError extends FridaError {}
+export class CancelledError extends FridaError {}
+
+export interface ErrorContext {
+    dbusErrorName?: string;
+    method?: string;
+    objectPath?: string;
+    serial?: number;
+}
\ No newline at end of file
@@ -1,15 +1,47 @@
+import * as applicationModule from "./application";
+import * as busModule from "./bus";
+import * as channelModule from "./channel";
+import * as childModule from "./child";
 import * as clientModule from "./client";
 import * as crashModule from "./crash";
+import * as errorsModule from "./errors";
+import * as inspectorModule from "./inspector";
+import * as loggerModule from "./logger";
+import * as portalModule from "./portal";
 import * as processModule from "./process";
+import * as protocolModule from "./protocol";
 import * as scriptModule from "./script";
+import * as serviceModule from "./service";
 import * as sessionModule from "./session";
+import * as sourceMapModule from "./sourcemap";
+import * as spawnModule from "./spawn";
+import * as transportModule from "./transport";
 
 export type Client = clientModule.Client;
 export const Client = clientModule.Client;
 export type ClientOptions = clientModule.ClientOptions;
+export type ReconnectOptions = clientModule.ReconnectOptions;
+export type LoggerOptions = loggerModule.LoggerOptions;
+export type LoggerLevel = loggerModule.LoggerLevel;
+export const LoggerLevel = loggerModule.LoggerLevel;
+export type LogCategory = loggerModule.LogCategory;
+export const LogCategory = loggerModule.LogCategory;
+export type LogSink = loggerModule.LogSink;
+export type SpawnAddedHandler = clientModule.SpawnAddedHandler;
+export type SpawnRemovedHandler = clientModule.SpawnRemovedHandler;
+export type ChildAddedHandler = clientModule.ChildAddedHandler;
+export type ChildRemovedHandler = clientModule.ChildRemovedHandler;
+export type ProcessCrashedHandler = clientModule.ProcessCrashedHandler;
+export type OutputHandler = clientModule.OutputHandler;
+export type UninjectedHandler = clientModule.UninjectedHandler;
 export type TransportLayerSecurity = clientModule.TransportLayerSecurity;
 export const TransportLayerSecurity = clientModule.TransportLayerSecurity;
+export type FrontmostQueryOptions = clientModule.FrontmostQueryOptions;
+export type ApplicationQueryOptions = clientModule.ApplicationQueryOptions;
 export type ProcessQueryOptions = clientModule.ProcessQueryOptions;
+export type SpawnOptions = clientModule.SpawnOptions;
+export type Stdio = clientModule.Stdio;
+export const Stdio = clientModule.Stdio;
 export type Scope = clientModule.Scope;
 export const Scope = clientModule.Scope;
 export type SessionOptions = clientModule.SessionOptions;
@@ -19,20 +51,35 @@ export const Realm = clientModule.Realm;
 export type Session = sessionModule.Session;
 export const Session = sessionModule.Session;
 export type SessionDetachedHandler = sessionModule.SessionDetachedHandler;
+export type DeliveryFailedHandler = sessionModule.DeliveryFailedHandler;
 export type SessionDetachReason = sessionModule.SessionDetachReason;
 export const SessionDetachReason = sessionModule.SessionDetachReason;
 export type PeerOptions = sessionModule.PeerOptions;
+export type RTCPeerConnectionConstructor = sessionModule.RTCPeerConnectionConstructor;
+export type TurnServer = sessionModule.TurnServer;
 export type Relay = sessionModule.Relay;
 export type RelayKind = sessionModule.RelayKind;
 export const RelayKind = sessionModule.RelayKind;
+export type PortalMembership = portalModule.PortalMembership;
+export const PortalMembership = portalModule.PortalMembership;
+export type PortalOptions = portalModule.PortalOptions;
 
-export type Script = scriptModule.Script;
+export type Script<TExports extends object = ScriptExports> = scriptModule.Script<TExports>;
 export const Script = scriptModule.Script;
 export type ScriptOptions = scriptModule.ScriptOptions;
 export type ScriptRuntime = scriptModule.ScriptRuntime;
 export const ScriptRuntime = scriptModule.ScriptRuntime;
+export type SnapshotTransport = scriptModule.SnapshotTransport;
+export const SnapshotTransport = scriptModule.SnapshotTransport;
+export type CompileOptions = scriptModule.CompileOptions;
+export type SnapshotOptions = scriptModule.SnapshotOptions;
 export type ScriptDestroyedHandler = scriptModule.ScriptDestroyedHandler;
 export type ScriptMessageHandler = scriptModule.ScriptMessageHandler;
+export type ScriptDebuggerMessageHandler = scriptModule.ScriptDebuggerMessageHandler;
+export type MessageStreamOptions = scriptModule.MessageStreamOptions;
+export type MessageOverflowPolicy = scriptModule.MessageOverflowPolicy;
+export const MessageOverflowPolicy = scriptModule.MessageOverflowPolicy;
+export type ScriptMessageEvent = scriptModule.ScriptMessageEvent;
 export type ScriptLogHandler = scriptModule.ScriptLogHandler;
 export type Message = scriptModule.Message;
 export type MessageType = scriptModule.MessageType;
@@ -40,8 +87,88 @@ export const MessageType = scriptModule.MessageType;
 export type SendMessage = scriptModule.SendMessage;
 export type ErrorMessage = scriptModule.ErrorMessage;
 export type ScriptExports = scriptModule.ScriptExports;
+export type RpcExports<T extends object> = scriptModule.RpcExports<T>;
 export type LogLevel = scriptModule.LogLevel;
 export const LogLevel = scriptModule.LogLevel;
 
+export type Channel = channelModule.Channel;
+export const Channel = channelModule.Channel;
+export type ChannelOptions = channelModule.ChannelOptions;
+export type ChannelClosedHandler = channelModule.ChannelClosedHandler;
+export type Service = serviceModule.Service;
+export const Service = serviceModule.Service;
+export type ServiceCloseHandler = serviceModule.ServiceCloseHandler;
+export type ServiceMessageHandler = serviceModule.ServiceMessageHandler;
+export type Bus = busModule.Bus;
+export const Bus = busModule.Bus;
+export type BusDetachedHandler = busModule.BusDetachedHandler;
+export type BusMessageHandler = busModule.BusMessageHandler;
+
+export type Application = applicationModule.Application;
+export type Icon = applicationModule.Icon;
+export const Icon = applicationModule.Icon;
+export type IconFormat = applicationModule.IconFormat;
+export const IconFormat = applicationModule.IconFormat;
+export const iconToBlob = applicationModule.iconToBlob;
+export const iconToImageBitmap = applicationModule.iconToImageBitmap;
+export const iconToDataUrl = applicationModule.iconToDataUrl;
 export type Process = processModule.Process;
-export type Crash = crashModule.Crash;
\ No newline at end of file
+export type CallOptions = protocolModule.CallOptions;
+export type Spawn = spawnModule.Spawn;
+export type Child = childModule.Child;
+export type ChildOrigin = childModule.ChildOrigin;
+export const ChildOrigin = childModule.ChildOrigin;
+export type Crash = crashModule.Crash;
+
+export type FridaError = errorsModule.FridaError;
+export const FridaError = errorsModule.FridaError;
+export type ServerNotRunningError = errorsModule.ServerNotRunningError;
+export const ServerNotRunningError = errorsModule.ServerNotRunningError;
+export type ExecutableNotFoundError = errorsModule.ExecutableNotFoundError;
+export const ExecutableNotFoundError = errorsModule.ExecutableNotFoundError;
+export type ExecutableNotSupportedError = errorsModule.ExecutableNotSupportedError;
+export const ExecutableNotSupportedError = errorsModule.ExecutableNotSupportedError;
+export type ProcessNotFoundError = errorsModule.ProcessNotFoundError;
+export const ProcessNotFoundError = errorsModule.ProcessNotFoundError;
+export type ProcessNotRespondingError = errorsModule.ProcessNotRespondingError;
+export const ProcessNotRespondingError = errorsModule.ProcessNotRespondingError;
+export type InvalidArgumentError = errorsModule.InvalidArgumentError;
+export const InvalidArgumentError = errorsModule.InvalidArgumentError;
+export type InvalidOperationError = errorsModule.InvalidOperationError;
+export const InvalidOperationError = errorsModule.InvalidOperationError;
+export type PermissionDeniedError = errorsModule.PermissionDeniedError;
+export const PermissionDeniedError = errorsModule.PermissionDeniedError;
+export type AddressInUseError = errorsModule.AddressInUseError;
+export const AddressInUseError = errorsModule.AddressInUseError;
+export type TimedOutError = errorsModule.TimedOutError;
+export const TimedOutError = errorsModule.TimedOutError;
+export type NotSupportedError = errorsModule.NotSupportedError;
+export const NotSupportedError = errorsModule.NotSupportedError;
+export type ProtocolError = errorsModule.ProtocolError;
+export const ProtocolError = errorsModule.ProtocolError;
+export type TransportError = errorsModule.TransportError;
+export const TransportError = errorsModule.TransportError;
+export type CancelledError = errorsModule.CancelledError;
+export const CancelledError = errorsModule.CancelledError;
+export type ErrorContext = errorsModule.ErrorContext;
+
+export type Transport = transportModule.Transport;
+export type TransportEvent = transportModule.TransportEvent;
+export type TransportFactory = transportModule.TransportFactory;
+export type WebSocketLike = transportModule.WebSocketLike;
+export type WebSocketFactory = transportModule.WebSocketFactory;
+export type WebSocketConstructor = transportModule.WebSocketConstructor;
+export type BaseTransport = transportModule.BaseTransport;
+export const BaseTransport = transportModule.BaseTransport;
+export const webSocketTransport = transportModule.webSocketTransport;
+export const nodeWebSocketTransport = transportModule.nodeWebSocketTransport;
+export const createTransportPair = transportModule.createTransportPair;
+
+export type SourceMap = sourceMapModule.SourceMap;
+export const SourceMap = sourceMapModule.SourceMap;
+export type RawSourceMap = sourceMapModule.RawSourceMap;
+export type OriginalPosition = sourceMapModule.OriginalPosition;
+
+export type Inspector = inspectorModule.Inspector;
+export type InspectorOptions = inspectorModule.InspectorOptions;
+export const attachInspector = inspectorModule.attachInspector;
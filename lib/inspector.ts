@@ -0,0 +1,148 @@
+import { Script } from "./script";
+
+/*
+ * Exposes a script's debugger as a Chrome DevTools Protocol endpoint, so that
+ * V8-runtime agents can be stepped through in DevTools or any other CDP client.
+ * Node only: the HTTP server and the `ws` package's WebSocketServer are passed
+ * in, in the same way as `nodeWebSocketTransport()`.
+ */
+
+export interface InspectorOptions {
+    server: HttpServerLike;
+    WebSocketServer: WebSocketServerConstructor;
+    title?: string;
+}
+
+export interface Inspector {
+    readonly id: string;
+    close(): Promise<void>;
+}
+
+export interface HttpServerLike {
+    on(event: "request", listener: (request: HttpRequestLike, response: HttpResponseLike) => void): unknown;
+    on(event: "upgrade", listener: (request: HttpRequestLike, socket: unknown, head: unknown) => void): unknown;
+    off(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+export interface HttpRequestLike {
+    url?: string;
+    headers: { [name: string]: string | string[] | undefined };
+}
+
+export interface HttpResponseLike {
+    writeHead(statusCode: number, headers: { [name: string]: string }): unknown;
+    end(body: string): unknown;
+}
+
+export interface WebSocketServerConstructor {
+    new (options: { noServer: true }): WebSocketServerLike;
+}
+
+export interface WebSocketServerLike {
+    handleUpgrade(request: HttpRequestLike, socket: unknown, head: unknown, callback: (client: InspectorClientLike) => void): void;
+    close(): void;
+}
+
+export interface InspectorClientLike {
+    on(event: "message", listener: (data: { toString(): string }) => void): unknown;
+    on(event: "close", listener: () => void): unknown;
+    send(data: string): void;
+    close(): void;
+}
+
+let nextInspectorId = 1;
+
+export async function attachInspector(script: Script<any>, options: InspectorOptions): Promise<Inspector> {
+    const { server, WebSocketServer, title = "Frida script" } = options;
+
+    const id = `frida-script-${nextInspectorId++}`;
+    const wss = new WebSocketServer({ noServer: true });
+    const clients = new Set<InspectorClientLike>();
+
+    await script.enableDebugger();
+
+    const onDebuggerMessage = (message: string) => {
+        for (const client of clients) {
+            client.send(message);
+        }
+    };
+
+    const onRequest = (request: HttpRequestLike, response: HttpResponseLike) => {
+        const path = (request.url ?? "").split("?")[0];
+        const host = request.headers.host ?? "127.0.0.1";
+
+        let body: any;
+        if (path === "/json" || path === "/json/list") {
+            body = [{
+                description: title,
+                devtoolsFrontendUrl: `devtools://devtools/bundled/js_app.html?experiments=true&v8only=true&ws=${host}/${id}`,
+                id,
+                title,
+                type: "node",
+                url: "file://",
+                webSocketDebuggerUrl: `ws://${host}/${id}`,
+            }];
+        } else if (path === "/json/version") {
+            body = {
+                "Browser": "frida-web",
+                "Protocol-Version": "1.3",
+            };
+        } else {
+            return;
+        }
+
+        response.writeHead(200, { "Content-Type": "application/json; charset=UTF-8" });
+        response.end(JSON.stringify(body));
+    };
+
+    const onUpgrade = (request: HttpRequestLike, socket: unknown, head: unknown) => {
+        if (request.url !== `/${id}`) {
+            return;
+        }
+
+        wss.handleUpgrade(request, socket, head, client => {
+            clients.add(client);
+            client.on("message", data => {
+                script.postDebuggerMessage(data.toString());
+            });
+            client.on("close", () => {
+                clients.delete(client);
+            });
+        });
+    };
+
+    let closed = false;
+
+    const close = async () => {
+        if (closed) {
+            return;
+        }
+        closed = true;
+
+        server.off("request", onRequest);
+        server.off("upgrade", onUpgrade);
+        script.debuggerMessage.disconnect(onDebuggerMessage);
+        script.destroyed.disconnect(onDestroyed);
+
+        for (const client of clients) {
+            client.close();
+        }
+        clients.clear();
+        wss.close();
+
+        if (!script.isDestroyed) {
+            await script.disableDebugger();
+        }
+    };
+
+    const onDestroyed = () => {
+        close();
+    };
+
+    script.debuggerMessage.connect(onDebuggerMessage);
+    script.destroyed.connect(onDestroyed);
+    server.on("request", onRequest);
+    server.on("upgrade", onUpgrade);
+
+    return { id, close };
+}
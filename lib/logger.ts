@@ -0,0 +1,109 @@
+export interface LoggerOptions {
+    level?: LoggerLevel;
+    categories?: LogCategory[];
+    wireTrace?: boolean;
+    sink?: LogSink;
+}
+
+export enum LoggerLevel {
+    Debug = "debug",
+    Info = "info",
+    Warning = "warning",
+    Error = "error"
+}
+
+export enum LogCategory {
+    Transport = "transport",
+    DBus = "dbus",
+    Session = "session",
+    Script = "script"
+}
+
+export type LogSink = (level: LoggerLevel, category: LogCategory, message: string, details?: any) => void;
+
+export class Logger {
+    private readonly threshold: number;
+    private readonly categories: Set<LogCategory>;
+    private readonly sink: LogSink;
+    readonly wireTrace: boolean;
+
+    constructor(options: LoggerOptions | null = null) {
+        if (options === null) {
+            this.threshold = Infinity;
+            this.categories = new Set();
+            this.sink = consoleSink;
+            this.wireTrace = false;
+            return;
+        }
+
+        const {
+            level = LoggerLevel.Info,
+            categories = Object.values(LogCategory),
+            wireTrace = false,
+            sink = consoleSink,
+        } = options;
+        this.threshold = levelRanks[level];
+        this.categories = new Set(categories);
+        this.sink = sink;
+        this.wireTrace = wireTrace;
+    }
+
+    isEnabled(level: LoggerLevel, category: LogCategory): boolean {
+        return levelRanks[level] >= this.threshold && this.categories.has(category);
+    }
+
+    debug(category: LogCategory, message: string, details?: any): void {
+        this.log(LoggerLevel.Debug, category, message, details);
+    }
+
+    info(category: LogCategory, message: string, details?: any): void {
+        this.log(LoggerLevel.Info, category, message, details);
+    }
+
+    warning(category: LogCategory, message: string, details?: any): void {
+        this.log(LoggerLevel.Warning, category, message, details);
+    }
+
+    error(category: LogCategory, message: string, details?: any): void {
+        this.log(LoggerLevel.Error, category, message, details);
+    }
+
+    wire(direction: "send" | "recv", message: any): void {
+        if (!this.wireTrace) {
+            return;
+        }
+
+        const { messageType, serial, replySerial, objectPath, interfaceName, memberName, errorName, args } = message;
+        this.sink(LoggerLevel.Debug, LogCategory.DBus, `${(direction === "send") ? ">>" : "<<"} #${serial}`, {
+            messageType,
+            replySerial,
+            objectPath,
+            interfaceName,
+            memberName,
+            errorName,
+            args,
+        });
+    }
+
+    private log(level: LoggerLevel, category: LogCategory, message: string, details?: any): void {
+        if (this.isEnabled(level, category)) {
+            this.sink(level, category, message, details);
+        }
+    }
+}
+
+const levelRanks: { [level in LoggerLevel]: number } = {
+    [LoggerLevel.Debug]: 0,
+    [LoggerLevel.Info]: 1,
+    [LoggerLevel.Warning]: 2,
+    [LoggerLevel.Error]: 3,
+};
+
+function consoleSink(level: LoggerLevel, category: LogCategory, message: string, details?: any): void {
+    const fn = (level === LoggerLevel.Warning) ? console.warn : (console as any)[level] || console.log;
+    if (details !== undefined) {
+        fn(`[${category}] ${message}`, details);
+    } else {
+        fn(`[${category}] ${message}`);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { CancelledError, TimedOutError, TransportError } from "./errors";
+import { BaseTransport } from "./transport";
+import { measureMessage } from "./wire";
+
+/*
+ * WebRTC plumbing for moving an agent session off the frida-server WebSocket
+ * and onto a direct data channel.
+ */
+
+export interface DataChannelLike {
+    binaryType: string;
+    readonly readyState: string;
+    addEventListener(type: string, listener: (event: any) => void): void;
+    send(data: ArrayBuffer): void;
+    close(): void;
+}
+
+const MAX_CHUNK_SIZE = 16384;
+
+/**
+ * D-Bus over an RTCDataChannel. The agent treats the channel as a byte stream,
+ * so incoming chunks are reassembled into whole messages, and outgoing messages
+ * are split into chunks that every WebRTC implementation accepts.
+ */
+export class DataChannelTransport extends BaseTransport {
+    private buffer = new Uint8Array(0);
+
+    constructor(private channel: DataChannelLike) {
+        super();
+        this.channel.binaryType = "arraybuffer";
+
+        this.channel.addEventListener("open", () => {
+            this.emit("open");
+        });
+        this.channel.addEventListener("close", event => {
+            this.emit("close", event);
+        });
+        this.channel.addEventListener("error", event => {
+            this.emit("error", event);
+        });
+        this.channel.addEventListener("message", event => {
+            this.receive(new Uint8Array(event.data));
+        });
+    }
+
+    send(data: ArrayBuffer) {
+        for (let offset = 0; offset < data.byteLength; offset += MAX_CHUNK_SIZE) {
+            this.channel.send(data.slice(offset, offset + MAX_CHUNK_SIZE));
+        }
+    }
+
+    close() {
+        this.channel.close();
+    }
+
+    private receive(chunk: Uint8Array) {
+        let buffer: Uint8Array;
+        if (this.buffer.byteLength === 0) {
+            buffer = chunk;
+        } else {
+            buffer = new Uint8Array(this.buffer.byteLength + chunk.byteLength);
+            buffer.set(this.buffer);
+            buffer.set(chunk, this.buffer.byteLength);
+        }
+
+        let offset = 0;
+        while (true) {
+            const length = measureMessage(buffer.subarray(offset));
+            if (length === null || offset + length > buffer.byteLength) {
+                break;
+            }
+            this.emit("message", buffer.slice(offset, offset + length).buffer);
+            offset += length;
+        }
+
+        this.buffer = buffer.slice(offset);
+    }
+}
+
+export function waitForDataChannel(channel: DataChannelLike, timeout: number, signal?: AbortSignal): Promise<void> {
+    if (channel.readyState === "open") {
+        return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+        let settled = false;
+
+        const settle = (error: Error | null) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+            if (error !== null) {
+                reject(error);
+            } else {
+                resolve();
+            }
+        };
+
+        const onAbort = () => settle(new CancelledError("Peer connection setup was cancelled"));
+
+        const timer = setTimeout(() => settle(new TimedOutError("Timed out waiting for the data channel to open")), timeout);
+        signal?.addEventListener("abort", onAbort);
+        channel.addEventListener("open", () => settle(null));
+        channel.addEventListener("close", () => settle(new TransportError("Data channel closed during setup")));
+        channel.addEventListener("error", () => settle(new TransportError("Data channel failed during setup")));
+
+        if (signal?.aborted) {
+            onAbort();
+        }
+    });
+}
@@ -0,0 +1,33 @@
+import { AgentSession, CallOptions } from "./protocol";
+
+/**
+ * A session's membership of a frida-portal, through which the attached process
+ * is made available to the portal's control clients.
+ */
+export class PortalMembership {
+    private _terminated = false;
+
+    constructor(private _controller: PortalMembershipController, public readonly id: number) {}
+
+    async terminate(callOptions: CallOptions = {}): Promise<void> {
+        if (this._terminated) {
+            return;
+        }
+        this._terminated = true;
+
+        await this._controller._activeSession.leavePortal([this.id], callOptions);
+    }
+}
+
+export interface PortalMembershipController {
+    _activeSession: AgentSession;
+}
+
+export interface PortalOptions {
+    /**
+     * PEM-encoded certificate to expect from the portal, for TLS.
+     */
+    certificate?: string;
+    token?: string;
+    acl?: string[];
+}
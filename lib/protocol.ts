@@ -9,7 +9,17 @@ export interface VariantDict {
 
 
 export interface MessageBus {
-    callMethod(destination: string, objectPath: string, interfaceName: string, memberName: string, args?: any[]): Promise<any>;
+    callMethod(destination: string, objectPath: string, interfaceName: string, memberName: string, args?: any[], options?: CallOptions): Promise<any[]>;
+    addSignalListener(objectPath: string, interfaceName: string, memberName: string, handler: BusSignalHandler): void;
+    removeSignalListener(objectPath: string, interfaceName: string, memberName: string, handler: BusSignalHandler): void;
+    close(): void;
+}
+
+export type BusSignalHandler = (args: any[]) => void;
+
+export interface CallOptions {
+    signal?: AbortSignal;
+    timeout?: number;
 }
 
 export interface HostConnection {
@@ -19,34 +29,109 @@ export interface HostConnection {
 
 
 export interface HostSession {
-    enumerateProcesses: (options: VariantDict) => Promise<HostProcessInfo[]>;
-    attach: (pid: number, options: VariantDict) => Promise<AgentSessionId>;
-    reattach: (id: AgentSessionId) => Promise<void>;
-    querySystemParameters: () => Promise<VariantDict>;
+    getFrontmostApplication: (options: VariantDict, callOptions?: CallOptions) => Promise<HostApplicationInfo>;
+    enumerateApplications: (options: VariantDict, callOptions?: CallOptions) => Promise<HostApplicationInfo[]>;
+    enumerateProcesses: (options: VariantDict, callOptions?: CallOptions) => Promise<HostProcessInfo[]>;
+    enableSpawnGating: (callOptions?: CallOptions) => Promise<void>;
+    disableSpawnGating: (callOptions?: CallOptions) => Promise<void>;
+    enumeratePendingSpawn: (callOptions?: CallOptions) => Promise<HostSpawnInfo[]>;
+    enumeratePendingChildren: (callOptions?: CallOptions) => Promise<HostChildInfo[]>;
+    attach: (pid: number, options: VariantDict, callOptions?: CallOptions) => Promise<AgentSessionId>;
+    reattach: (id: AgentSessionId, callOptions?: CallOptions) => Promise<void>;
+    querySystemParameters: (callOptions?: CallOptions) => Promise<VariantDict>;
+    spawn: (program: string, options: HostSpawnOptions, callOptions?: CallOptions) => Promise<number>;
+    resume: (pid: number, callOptions?: CallOptions) => Promise<void>;
+    kill: (pid: number, callOptions?: CallOptions) => Promise<void>;
+    injectLibraryFile: (pid: number, path: string, entrypoint: string, data: string, callOptions?: CallOptions) => Promise<InjectorPayloadId>;
+    injectLibraryBlob: (pid: number, blob: Uint8Array, entrypoint: string, data: string, callOptions?: CallOptions) => Promise<InjectorPayloadId>;
+    openChannel: (address: string, callOptions?: CallOptions) => Promise<ChannelId>;
+    openService: (address: string, callOptions?: CallOptions) => Promise<ServiceId>;
 }
 
 export interface AgentSession {
-    close: () => Promise<void>;
-    resume: (rxBatchId: number) => Promise<number>;
-    createScript: (source: string, options: VariantDict) => Promise<AgentScriptId>;
-    destroyScript: (scriptId: AgentScriptId) => Promise<void>;
-    loadScript: (scriptId: AgentScriptId) => Promise<void>;
-    postMessages: (messages: AgentMessageRecord[], batchId: number) => Promise<void>;
-    offerPeerConnection: (offerSdp: string, options: VariantDict) => Promise<string>;
-    addCandidates: (candidateSdps: string[]) => Promise<void>;
-    notifyCandidateGatheringDone: () => Promise<void>;
-    beginMigration: () => Promise<void>;
-    commitMigration: () => Promise<void>;
+    close: (callOptions?: CallOptions) => Promise<void>;
+    resume: (rxBatchId: number, callOptions?: CallOptions) => Promise<number>;
+    enableChildGating: (callOptions?: CallOptions) => Promise<void>;
+    disableChildGating: (callOptions?: CallOptions) => Promise<void>;
+    createScript: (source: string, options: VariantDict, callOptions?: CallOptions) => Promise<AgentScriptId>;
+    createScriptFromBytes: (bytes: Uint8Array, options: VariantDict, callOptions?: CallOptions) => Promise<AgentScriptId>;
+    compileScript: (source: string, options: VariantDict, callOptions?: CallOptions) => Promise<Uint8Array>;
+    snapshotScript: (embedScript: string, options: VariantDict, callOptions?: CallOptions) => Promise<Uint8Array>;
+    destroyScript: (scriptId: AgentScriptId, callOptions?: CallOptions) => Promise<void>;
+    loadScript: (scriptId: AgentScriptId, callOptions?: CallOptions) => Promise<void>;
+    eternalizeScript: (scriptId: AgentScriptId, callOptions?: CallOptions) => Promise<void>;
+    enableDebugger: (scriptId: AgentScriptId, callOptions?: CallOptions) => Promise<void>;
+    disableDebugger: (scriptId: AgentScriptId, callOptions?: CallOptions) => Promise<void>;
+    postMessages: (messages: AgentMessageRecord[], batchId: number, callOptions?: CallOptions) => Promise<void>;
+    joinPortal: (address: string, options: VariantDict, callOptions?: CallOptions) => Promise<PortalMembershipId>;
+    leavePortal: (membershipId: PortalMembershipId, callOptions?: CallOptions) => Promise<void>;
+    offerPeerConnection: (offerSdp: string, options: VariantDict, callOptions?: CallOptions) => Promise<string>;
+    addCandidates: (candidateSdps: string[], callOptions?: CallOptions) => Promise<void>;
+    notifyCandidateGatheringDone: (callOptions?: CallOptions) => Promise<void>;
+    beginMigration: (callOptions?: CallOptions) => Promise<void>;
+    commitMigration: (callOptions?: CallOptions) => Promise<void>;
 }
 
+export type HostApplicationInfo = [identifier: string, name: string, pid: number, parameters: VariantDict];
+
 export type HostProcessInfo = [pid: number, name: string, parameters: VariantDict];
 
+export type HostSpawnOptions = [
+    hasArgv: boolean,
+    argv: string[],
+    hasEnvp: boolean,
+    envp: string[],
+    hasEnv: boolean,
+    env: string[],
+    cwd: string,
+    stdio: number,
+    aux: VariantDict,
+];
+
+export type HostSpawnInfo = [pid: number, identifier: string];
+
+export type HostChildInfo = [
+    pid: number,
+    parentPid: number,
+    origin: number,
+    identifier: string,
+    path: string,
+    hasArgv: boolean,
+    argv: string[],
+    hasEnvp: boolean,
+    envp: string[],
+];
+
 export type CrashInfo = [pid: number, processName: string, summary: string, report: string, parameters: VariantDict];
 
 export type AgentSessionId = [handle: string];
 
 export type AgentScriptId = [handle: number];
 
+export type InjectorPayloadId = [handle: number];
+
+export type PortalMembershipId = [handle: number];
+
+export type ChannelId = [handle: number];
+
+export interface ChannelSession {
+    close: (callOptions?: CallOptions) => Promise<void>;
+    post: (data: Uint8Array, callOptions?: CallOptions) => Promise<void>;
+}
+
+export type ServiceId = [handle: number];
+
+export interface ServiceSession {
+    activate: (callOptions?: CallOptions) => Promise<void>;
+    cancel: (callOptions?: CallOptions) => Promise<void>;
+    request: (parameters: Variant, callOptions?: CallOptions) => Promise<Variant>;
+}
+
+export interface BusSession {
+    attach: (callOptions?: CallOptions) => Promise<void>;
+    post: (json: string, hasData: boolean, data: Uint8Array, callOptions?: CallOptions) => Promise<void>;
+}
+
 
 export class AgentMessageSink {
     constructor(private handler: AgentMessageHandler) {}
@@ -58,7 +143,7 @@ export class AgentMessageSink {
 
 export type AgentMessageHandler = (messages: AgentMessageRecord[], batchId: number) => void;
 
-export type AgentMessageRecord = [kind: number, scriptId: AgentScriptId, text: string, hasData: boolean, data: number[]];
+export type AgentMessageRecord = [kind: number, scriptId: AgentScriptId, text: string, hasData: boolean, data: Uint8Array];
 
 export enum AgentMessageKind {
     Script = 1,
@@ -3,7 +3,10 @@ import {
     AgentScriptId,
     AgentMessageRecord,
     AgentMessageKind,
+    CallOptions,
 } from "./protocol";
+import { CancelledError, TimedOutError } from "./errors";
+import { RawSourceMap, SourceMap } from "./sourcemap";
 import {
     SignalSource,
     Signal,
@@ -35,7 +38,7 @@ class BrowserEventEmitter {
     emit(event: string, ...args: any[]): void {
         const eventListeners = this.listeners.get(event);
         if (eventListeners) {
-            eventListeners.forEach(listener => listener(...args));
+            eventListeners.slice().forEach(listener => listener(...args));
         }
     }
 
@@ -48,40 +51,69 @@ class BrowserEventEmitter {
     }
 }
 
-export class Script {
+export class Script<TExports extends object = ScriptExports> {
     destroyed: Signal<ScriptDestroyedHandler>;
     message: Signal<ScriptMessageHandler>;
+    debuggerMessage: Signal<ScriptDebuggerMessageHandler>;
 
     _events = new BrowserEventEmitter();
 
     private readonly _id: AgentScriptId;
     private _state: "created" | "destroyed" = "created";
-    private readonly _exportsProxy: ScriptExports;
+    private readonly _rpcController: RpcController;
+    private readonly _exportsProxy: RpcExports<TExports>;
     private _logHandlerImpl: ScriptLogHandler = log;
 
     constructor(
             private _controller: ScriptController,
-            id: AgentScriptId) {
+            id: AgentScriptId,
+            private _sourceMap: SourceMap | null = null) {
         this._id = id;
 
         const services = new ScriptServices(this, this._events);
 
-        const rpcController: RpcController = services;
-        this._exportsProxy = makeScriptExportsProxy(rpcController);
+        this._rpcController = services;
+        this._exportsProxy = makeScriptExportsProxy<TExports>(this._rpcController, {});
 
         const source: SignalSource = services;
         this.destroyed = new Signal<ScriptDestroyedHandler>(source, "destroyed");
         this.message = new Signal<ScriptMessageHandler>(source, "message");
+        this.debuggerMessage = new Signal<ScriptDebuggerMessageHandler>(source, "debugger-message");
     }
 
     get isDestroyed(): boolean {
         return this._state === "destroyed";
     }
 
-    get exports(): ScriptExports {
+    get exports(): RpcExports<TExports> {
         return this._exportsProxy;
     }
 
+    exportsWithOptions(options: CallOptions): RpcExports<TExports> {
+        return makeScriptExportsProxy<TExports>(this._rpcController, options);
+    }
+
+    messages(options: MessageStreamOptions = {}): AsyncIterableIterator<ScriptMessageEvent> {
+        return makeMessageIterator(this, options);
+    }
+
+    readable(options: MessageStreamOptions = {}, strategy?: QueuingStrategy<ScriptMessageEvent>): ReadableStream<ScriptMessageEvent> {
+        const iterator = this.messages(options);
+        return new ReadableStream<ScriptMessageEvent>({
+            async pull(controller) {
+                const { value, done } = await iterator.next();
+                if (done) {
+                    controller.close();
+                } else {
+                    controller.enqueue(value);
+                }
+            },
+            async cancel() {
+                await iterator.return!();
+            },
+        }, strategy);
+    }
+
     get logHandler(): ScriptLogHandler {
         return this._logHandlerImpl;
     }
@@ -94,26 +126,63 @@ export class Script {
         return log;
     }
 
-    load(): Promise<void> {
-        return this._controller._activeSession.loadScript(this._id);
+    async load(callOptions: CallOptions = {}): Promise<void> {
+        await this._controller._activeSession.loadScript(this._id, callOptions);
+
+        // Fills in `exports` without holding up load(); listExports() can be called to wait for it.
+        this.listExports().catch(() => {});
+    }
+
+    /**
+     * Asks the agent for its export names, which `exports` reflects from then on.
+     */
+    async listExports(callOptions: CallOptions = {}): Promise<string[]> {
+        const names: string[] = await this._rpcController.request("list", [], callOptions);
+        this._rpcController.exportNames = names;
+        return names;
     }
 
-    async unload(): Promise<void> {
-        await this._controller._activeSession.destroyScript(this._id);
+    async eternalize(callOptions: CallOptions = {}): Promise<void> {
+        await this._controller._activeSession.eternalizeScript(this._id, callOptions);
 
         this._destroy();
     }
 
-    post(message: any, data: ArrayBuffer | null = null): void {
+    async enableDebugger(callOptions: CallOptions = {}): Promise<void> {
+        await this._controller._activeSession.enableDebugger(this._id, callOptions);
+    }
+
+    async disableDebugger(callOptions: CallOptions = {}): Promise<void> {
+        await this._controller._activeSession.disableDebugger(this._id, callOptions);
+    }
+
+    postDebuggerMessage(message: string): Promise<void> {
+        const record: AgentMessageRecord = [
+            AgentMessageKind.Debugger,
+            this._id,
+            message,
+            false,
+            new Uint8Array(0)
+        ];
+        return this._controller._postToAgent(record);
+    }
+
+    async unload(callOptions: CallOptions = {}): Promise<void> {
+        await this._controller._activeSession.destroyScript(this._id, callOptions);
+
+        this._destroy();
+    }
+
+    post(message: any, data: ArrayBuffer | null = null): Promise<void> {
         const hasData = data !== null;
         const record: AgentMessageRecord = [
             AgentMessageKind.Script,
             this._id,
             JSON.stringify(message),
             hasData,
-            hasData ? Array.from(new Uint8Array(data)) : []
+            hasData ? new Uint8Array(data) : new Uint8Array(0)
         ];
-        this._controller._postToAgent(record);
+        return this._controller._postToAgent(record);
     }
 
     _destroy() {
@@ -126,12 +195,71 @@ export class Script {
     }
 
     _dispatchMessage(message: Message, data: ArrayBuffer | null): void {
-        this._events.emit("message", message, data);
+        this._events.emit("message", this._mapMessageLocations(message), data);
+    }
+
+    _mapLocations(text: string): string {
+        return (this._sourceMap !== null) ? this._sourceMap.rewriteLocations(text) : text;
+    }
+
+    private _mapMessageLocations(message: Message): Message {
+        const sourceMap = this._sourceMap;
+        if (sourceMap === null) {
+            return message;
+        }
+
+        switch (message.type) {
+            case MessageType.Error: {
+                const mapped: ErrorMessage = { ...message };
+                if (message.lineNumber !== undefined) {
+                    const position = sourceMap.originalPositionFor(message.lineNumber, message.columnNumber ?? null);
+                    if (position !== null) {
+                        mapped.fileName = position.source;
+                        mapped.lineNumber = position.line;
+                        mapped.columnNumber = position.column;
+                    }
+                }
+                if (message.stack !== undefined) {
+                    mapped.stack = sourceMap.rewriteLocations(message.stack);
+                }
+                return mapped;
+            }
+            case MessageType.Log:
+                return { ...message, payload: sourceMap.rewriteLocations(message.payload) };
+            default:
+                return message;
+        }
+    }
+
+    _dispatchDebuggerMessage(message: string): void {
+        this._events.emit("debugger-message", message);
     }
 }
 
 export interface ScriptOptions {
     name?: string;
+    /**
+     * Source map for the script, used to report errors and stack traces at their
+     * original locations. Inline `sourceMappingURL` data URLs are picked up automatically.
+     */
+    sourceMap?: string | RawSourceMap;
+    snapshot?: Uint8Array | ArrayBuffer;
+    snapshotTransport?: SnapshotTransport;
+    runtime?: ScriptRuntime;
+}
+
+export enum SnapshotTransport {
+    Inline = "inline",
+    Reference = "reference",
+}
+
+export interface CompileOptions {
+    name?: string;
+    runtime?: ScriptRuntime;
+}
+
+export interface SnapshotOptions {
+    warmupScript?: string;
     runtime?: ScriptRuntime;
 }
 
@@ -141,8 +269,35 @@ export enum ScriptRuntime {
     V8 = "v8",
 }
 
+export interface MessageStreamOptions {
+    /**
+     * Only yield `send` messages whose payload has this `type` property.
+     */
+    payloadType?: string;
+    filter?: (message: Message, data: ArrayBuffer | null) => boolean;
+    /**
+     * How many unread messages to hold on to, 1000 by default. The agent cannot be
+     * paused, so once this many are waiting, `overflow` decides which one to drop.
+     */
+    bufferSize?: number;
+    overflow?: MessageOverflowPolicy;
+}
+
+export enum MessageOverflowPolicy {
+    DropOldest = "drop-oldest",
+    DropNewest = "drop-newest"
+}
+
+const DEFAULT_MESSAGE_BUFFER_SIZE = 1000;
+
+export interface ScriptMessageEvent {
+    message: Message;
+    data: ArrayBuffer | null;
+}
+
 export type ScriptDestroyedHandler = () => void;
 export type ScriptMessageHandler = (message: Message, data: ArrayBuffer | null) => void;
+export type ScriptDebuggerMessageHandler = (message: string) => void;
 export type ScriptLogHandler = (level: LogLevel, text: string) => void;
 
 export type Message = SendMessage | ErrorMessage | LogMessage;
@@ -177,6 +332,16 @@ export interface ScriptExports {
     [name: string]: (...args: any[]) => Promise<any>;
 }
 
+/**
+ * The client-side view of an agent's `rpc.exports`: every exported function
+ * becomes async, since each call is a round-trip to the agent. The agent's
+ * own declaration can be used directly, e.g. `RpcExports<typeof agentExports>`.
+ */
+export type RpcExports<T extends object> = {
+    [K in keyof T as T[K] extends (...args: any[]) => any ? K : never]:
+        T[K] extends (...args: infer A) => infer R ? (...args: A) => Promise<Awaited<R>> : never;
+};
+
 export enum LogLevel {
     Info = "info",
     Warning = "warning",
@@ -185,14 +350,16 @@ export enum LogLevel {
 
 export interface ScriptController {
     _activeSession: AgentSession;
-    _postToAgent(record: AgentMessageRecord): void;
+    _postToAgent(record: AgentMessageRecord): Promise<void>;
 }
 
 class ScriptServices extends SignalAdapter implements RpcController {
+    exportNames: string[] | null = null;
+
     private pendingRequests: { [id: string]: (error: Error | null, result?: any) => void } = {};
     private nextRequestId: number = 1;
 
-    constructor(private script: Script, events: BrowserEventEmitter) {
+    constructor(private script: Script<any>, events: BrowserEventEmitter) {
         super(events);
 
         this.signalSource.addListener("destroyed", this.onDestroyed);
@@ -227,13 +394,31 @@ class ScriptServices extends SignalAdapter implements RpcController {
         }
     }
 
-    request(operation: string, params: any[]): Promise<any> {
+    request(operation: string, params: any[], options: CallOptions = {}): Promise<any> {
+        const { signal, timeout = 0 } = options;
+
         return new Promise((resolve, reject) => {
             const id = this.nextRequestId++;
             const strId = id.toString();
+            const describe = () => `RPC ${operation}${(operation === "call") ? ` of ${params[0]}` : ""}`;
+
+            if (signal?.aborted) {
+                reject(new CancelledError(`${describe()} was cancelled`));
+                return;
+            }
 
-            this.pendingRequests[strId] = (error: Error | null, result?: any) => {
+            let timer: ReturnType<typeof setTimeout> | null = null;
+
+            const onAbort = () => {
+                complete(new CancelledError(`${describe()} was cancelled`));
+            };
+
+            const complete = (error: Error | null, result?: any) => {
                 delete this.pendingRequests[strId];
+                if (timer !== null) {
+                    clearTimeout(timer);
+                }
+                signal?.removeEventListener("abort", onAbort);
 
                 if (error !== null) {
                     reject(error);
@@ -242,7 +427,21 @@ class ScriptServices extends SignalAdapter implements RpcController {
                 }
             };
 
-            this.script.post(["frida:rpc", id, operation, ...params]);
+            this.pendingRequests[strId] = complete;
+
+            signal?.addEventListener("abort", onAbort);
+
+            if (timeout > 0) {
+                timer = setTimeout(() => {
+                    complete(new TimedOutError(`Timed out waiting for ${describe()}`));
+                }, timeout);
+            }
+
+            this.script.post(["frida:rpc", id, operation, ...params]).catch(error => {
+                if (this.pendingRequests[strId] !== undefined) {
+                    complete(error);
+                }
+            });
         });
     }
 
@@ -261,7 +460,7 @@ class ScriptServices extends SignalAdapter implements RpcController {
             const [message, name, stack] = params;
             error = new Error(message);
             error.name = name;
-            error.stack = stack;
+            error.stack = (typeof stack === "string") ? this.script._mapLocations(stack) : stack;
         }
 
         completionHandler(error, result);
@@ -269,16 +468,48 @@ class ScriptServices extends SignalAdapter implements RpcController {
 }
 
 interface RpcController {
-    request(operation: string, params: any[]): Promise<any>;
+    exportNames: string[] | null;
+    request(operation: string, params: any[], options?: CallOptions): Promise<any>;
 }
 
-function makeScriptExportsProxy(rpc: RpcController): ScriptExports {
-    return new Proxy({}, {
+/*
+ * Properties that serializers, test frameworks and debuggers look up on any object
+ * they are handed. Until the export names are known, these are not treated as RPC
+ * methods, so that e.g. JSON.stringify() does not call an export named "toJSON".
+ */
+const probedProperties = new Set([
+    "then",
+    "toJSON",
+    "asymmetricMatch",
+    "$$typeof",
+    "nodeType",
+    "inspect",
+    "nodejs.util.inspect.custom",
+    "@@__IMMUTABLE_ITERABLE__@@",
+    "@@__IMMUTABLE_RECORD__@@",
+    "_isMockFunction",
+]);
+
+function makeScriptExportsProxy<TExports extends object>(rpc: RpcController, options: CallOptions): RpcExports<TExports> {
+    const makeMethod = (name: string) => async (...args: any[]) => {
+        return await rpc.request("call", [name, args], options);
+    };
+
+    const isExport = (property: string | symbol): property is string => {
+        if (typeof property !== "string") {
+            return false;
+        }
+        if (rpc.exportNames !== null) {
+            return rpc.exportNames.includes(property);
+        }
+        return !(property in Object.prototype) && !probedProperties.has(property);
+    };
+    const exportNames = () => rpc.exportNames ?? [];
+
+    return new Proxy({} as RpcExports<TExports>, {
         get(target, property, receiver) {
-            if (typeof property === "string") {
-                return async (...args: any[]) => {
-                    return await rpc.request("call", [property, args]);
-                };
+            if (isExport(property)) {
+                return makeMethod(property);
             } else {
                 return Reflect.get(target, property, receiver);
             }
@@ -289,19 +520,104 @@ function makeScriptExportsProxy(rpc: RpcController): ScriptExports {
         },
 
         has(target, property) {
+            if (typeof property === "string" && exportNames().includes(property)) {
+                return true;
+            }
             return Reflect.has(target, property);
         },
 
         ownKeys(target) {
-            return Reflect.ownKeys(target);
+            const ownKeys = Reflect.ownKeys(target);
+            return [...exportNames().filter(name => !ownKeys.includes(name)), ...ownKeys];
         },
 
         getOwnPropertyDescriptor(target, property) {
+            if (typeof property === "string" && exportNames().includes(property)) {
+                return {
+                    value: makeMethod(property),
+                    writable: false,
+                    enumerable: true,
+                    configurable: true,
+                };
+            }
             return Reflect.getOwnPropertyDescriptor(target, property);
         }
     });
 }
 
+function makeMessageIterator(script: Script<any>, options: MessageStreamOptions): AsyncIterableIterator<ScriptMessageEvent> {
+    const { payloadType, filter, bufferSize = DEFAULT_MESSAGE_BUFFER_SIZE, overflow = MessageOverflowPolicy.DropOldest } = options;
+
+    const queue: ScriptMessageEvent[] = [];
+    const waiters: ((result: IteratorResult<ScriptMessageEvent>) => void)[] = [];
+    let ended = false;
+
+    const onMessage: ScriptMessageHandler = (message, data) => {
+        if (payloadType !== undefined &&
+                !(message.type === MessageType.Send && message.payload?.type === payloadType)) {
+            return;
+        }
+        if (filter !== undefined && !filter(message, data)) {
+            return;
+        }
+
+        const event = { message, data };
+        const waiter = waiters.shift();
+        if (waiter !== undefined) {
+            waiter({ value: event, done: false });
+        } else if (queue.length < bufferSize) {
+            queue.push(event);
+        } else if (overflow === MessageOverflowPolicy.DropOldest) {
+            queue.shift();
+            queue.push(event);
+        }
+    };
+
+    const end = () => {
+        if (ended) {
+            return;
+        }
+        ended = true;
+
+        script.message.disconnect(onMessage);
+        script.destroyed.disconnect(end);
+
+        for (const waiter of waiters.splice(0)) {
+            waiter({ value: undefined, done: true });
+        }
+    };
+
+    if (script.isDestroyed) {
+        ended = true;
+    } else {
+        script.message.connect(onMessage);
+        script.destroyed.connect(end);
+    }
+
+    return {
+        next(): Promise<IteratorResult<ScriptMessageEvent>> {
+            const event = queue.shift();
+            if (event !== undefined) {
+                return Promise.resolve({ value: event, done: false });
+            }
+            if (ended) {
+                return Promise.resolve({ value: undefined, done: true });
+            }
+            return new Promise(resolve => waiters.push(resolve));
+        },
+
+        return(): Promise<IteratorResult<ScriptMessageEvent>> {
+            end();
+            queue.length = 0;
+            return Promise.resolve({ value: undefined, done: true });
+        },
+
+        [Symbol.asyncIterator]() {
+            return this;
+        },
+    };
+}
+
 function isInternalMessage(message: Message): boolean {
     return message.type === MessageType.Send &&
            typeof message.payload === "object" &&
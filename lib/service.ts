@@ -0,0 +1,108 @@
+import { CallOptions, ServiceSession, Variant } from "./protocol";
+import { toVariant, parseVariantValue } from "./dbus";
+import { InvalidOperationError } from "./errors";
+import { Signal } from "./signals";
+
+
+class BrowserEventEmitter {
+    private listeners = new Map<string, Function[]>();
+
+    addListener(event: string, listener: Function): void {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, []);
+        }
+        this.listeners.get(event)!.push(listener);
+    }
+
+    removeListener(event: string, listener: Function): void {
+        const eventListeners = this.listeners.get(event);
+        if (eventListeners) {
+            const index = eventListeners.indexOf(listener);
+            if (index > -1) {
+                eventListeners.splice(index, 1);
+            }
+        }
+    }
+
+    emit(event: string, ...args: any[]): void {
+        const eventListeners = this.listeners.get(event);
+        if (eventListeners) {
+            eventListeners.slice().forEach(listener => listener(...args));
+        }
+    }
+
+    once(event: string, listener: Function): void {
+        const onceWrapper = (...args: any[]) => {
+            listener(...args);
+            this.removeListener(event, onceWrapper);
+        };
+        this.addListener(event, onceWrapper);
+    }
+}
+
+/**
+ * A device-side service, such as "xpc:com.apple.instruments.remoteserver" or
+ * "dtx:com.apple.instruments.server.services.deviceinfo".
+ */
+export class Service {
+    close: Signal<ServiceCloseHandler>;
+    message: Signal<ServiceMessageHandler>;
+
+    _events = new BrowserEventEmitter();
+
+    private _state: "open" | "closed" = "open";
+
+    constructor(private _session: ServiceSession, public readonly id: number, public readonly address: string) {
+        this.close = new Signal<ServiceCloseHandler>(this._events, "close");
+        this.message = new Signal<ServiceMessageHandler>(this._events, "message");
+    }
+
+    get isClosed(): boolean {
+        return this._state === "closed";
+    }
+
+    async activate(callOptions: CallOptions = {}): Promise<void> {
+        this._checkOpen();
+        await this._session.activate(callOptions);
+    }
+
+    async cancel(callOptions: CallOptions = {}): Promise<void> {
+        if (this._state === "closed") {
+            return;
+        }
+
+        try {
+            await this._session.cancel(callOptions);
+        } finally {
+            this._onClose();
+        }
+    }
+
+    async request(parameters: any, callOptions: CallOptions = {}): Promise<any> {
+        this._checkOpen();
+        const response = await this._session.request(toVariant(parameters), callOptions);
+        return parseVariantValue(response);
+    }
+
+    _onMessage(message: Variant): void {
+        this._events.emit("message", parseVariantValue(message));
+    }
+
+    _onClose(): void {
+        if (this._state === "closed") {
+            return;
+        }
+
+        this._state = "closed";
+        this._events.emit("close");
+    }
+
+    private _checkOpen(): void {
+        if (this._state === "closed") {
+            throw new InvalidOperationError(`Service ${this.address} is closed`);
+        }
+    }
+}
+
+export type ServiceCloseHandler = () => void;
+export type ServiceMessageHandler = (message: any) => void;
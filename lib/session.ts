@@ -2,15 +2,24 @@ import {
     HostConnection,
     AgentSession,
     AgentSessionId,
+    AgentScriptId,
     AgentMessageSink,
     AgentMessageHandler,
     AgentMessageRecord,
     AgentMessageKind,
     VariantDict,
+    CallOptions,
 } from "./protocol";
 import { Crash } from "./crash";
-import { Script, ScriptOptions } from "./script";
+import { toArrayBuffer } from "./dbus";
+import { CancelledError, InvalidOperationError, NotSupportedError } from "./errors";
+import { Logger, LogCategory } from "./logger";
+import { DataChannelTransport, waitForDataChannel } from "./peer";
+import { PortalMembership, PortalOptions } from "./portal";
+import { Script, ScriptExports, ScriptOptions, CompileOptions, SnapshotOptions } from "./script";
 import { Signal } from "./signals";
+import { SourceMap } from "./sourcemap";
+import { Transport } from "./transport";
 
 
 class BrowserEventEmitter {
@@ -36,7 +45,7 @@ class BrowserEventEmitter {
     emit(event: string, ...args: any[]): void {
         const eventListeners = this.listeners.get(event);
         if (eventListeners) {
-            eventListeners.forEach(listener => listener(...args));
+            eventListeners.slice().forEach(listener => listener(...args));
         }
     }
 
@@ -51,6 +60,7 @@ class BrowserEventEmitter {
 
 export class Session {
     detached: Signal<SessionDetachedHandler>;
+    deliveryFailed: Signal<DeliveryFailedHandler>;
 
     _events = new BrowserEventEmitter();
 
@@ -61,10 +71,14 @@ export class Session {
     private readonly _sink: AgentMessageSink;
     private _lastRxBatchId = 0;
     private _pendingMessages: PendingMessage[] = [];
+    private _inFlightMessages: PendingMessage[] = [];
     private _nextSerial = 1;
     private _pendingDeliveries = 0;
+    private _retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private _persistTimer: ReturnType<typeof setTimeout> | null = null;
+    private _peerConnection: RTCPeerConnection | null = null;
 
-    private readonly _scripts = new Map<number, Script>();
+    private readonly _scripts = new Map<number, Script<any>>();
 
     constructor(
             private _controller: SessionController,
@@ -77,30 +91,51 @@ export class Session {
         this._sink = new AgentMessageSink(this._dispatchMessages);
 
         this.detached = new Signal<SessionDetachedHandler>(this._events, "detached");
+        this.deliveryFailed = new Signal<DeliveryFailedHandler>(this._events, "delivery-failed");
     }
 
     get isDetached(): boolean {
         return this._state === "detached";
     }
 
+    get isInterrupted(): boolean {
+        return this._state === "interrupted";
+    }
+
+    /**
+     * Number of outbound messages that have not yet been acknowledged by the agent,
+     * including those currently in flight.
+     */
+    get sendQueueDepth(): number {
+        return this._pendingMessages.length + this._inFlightMessages.length;
+    }
+
     async detach(): Promise<void> {
         if (this._state === "detached") {
             return;
         }
 
+        const wasInterrupted = this._state === "interrupted";
+
         this._state = "detached";
+        this._clearPersistTimer();
+        this._failPendingMessages(new InvalidOperationError("Session is detached"));
 
         for (const script of this._scripts.values()) {
             script._destroy();
         }
         this._scripts.clear();
 
-        try {
-            await this._activeSession.close();
-        } catch (error) {
-           
+        if (!wasInterrupted) {
+            try {
+                await this._activeSession.close();
+            } catch (error) {
+               
+            }
         }
 
+        this._closePeerConnection();
+
         this._events.emit("detached", SessionDetachReason.ApplicationRequested, null);
     }
 
@@ -109,13 +144,169 @@ export class Session {
             return;
         }
 
+        const lastTxBatchId = await this._activeSession.resume(this._lastRxBatchId);
+        if (lastTxBatchId !== 0) {
+            while (this._pendingMessages.length > 0) {
+                const head = this._pendingMessages[0];
+                if (head.deliveryAttempts === 0 || head.serial > lastTxBatchId) {
+                    break;
+                }
+                this._pendingMessages.shift();
+                head.resolve();
+            }
+        }
+
+        this._clearPersistTimer();
         this._state = "attached";
 
-        this._lastRxBatchId = await this._activeSession.resume(this._lastRxBatchId);
         this._deliverPendingMessages();
     }
 
-    async createScript(source: string, options: ScriptOptions = {}): Promise<Script> {
+    /**
+     * Moves the session onto a direct WebRTC data channel, so that script traffic
+     * no longer passes through frida-server. Resolves to false, leaving the session
+     * on the WebSocket, if the peer connection cannot be negotiated or the migration
+     * fails. Rejects with a CancelledError if `callOptions.signal` is aborted.
+     * Once migrated there is no way back to the WebSocket, so the session detaches
+     * with ConnectionTerminated if the data channel closes.
+     */
+    async setupPeerConnection(options: PeerOptions = {}, callOptions: CallOptions = {}): Promise<boolean> {
+        const logger = this._controller._logger;
+
+        const PeerConnection: RTCPeerConnectionConstructor | undefined = options.RTCPeerConnection
+            ?? ((typeof RTCPeerConnection !== "undefined") ? RTCPeerConnection : undefined);
+        if (PeerConnection === undefined) {
+            throw new NotSupportedError("WebRTC is not available in this environment");
+        }
+        if (this._state !== "attached") {
+            throw new InvalidOperationError("Session is not attached");
+        }
+
+        const { stun = [], turn = [], relays = [], timeout = 10000 } = options;
+
+        const iceServers: RTCIceServer[] = [
+            ...stun.map(url => ({ urls: url })),
+            ...turn.map(({ urls, username, credential }) => ({ urls, username, credential })),
+            ...relays.map(relay => ({
+                urls: `${(relay.kind === RelayKind.TurnTls) ? "turns" : "turn"}:${relay.address}?transport=${(relay.kind === RelayKind.TurnUdp) ? "udp" : "tcp"}`,
+                username: relay.username,
+                credential: relay.password,
+            })),
+        ];
+
+        const rawOptions: VariantDict = {};
+        if (stun.length > 0) {
+            rawOptions["stun-server"] = { signature: "s", value: stun[0].replace(/^stuns?:/, "") };
+        }
+        rawOptions.relays = {
+            signature: "a(sssu)",
+            value: relays.map(relay => [relay.address, relay.username, relay.password, relayKindCodes[relay.kind]]),
+        };
+
+        const pc = new PeerConnection({ iceServers });
+        const channel = pc.createDataChannel("session");
+        const previousSession = this._activeSession;
+
+        const abandon = (what: string, error: unknown): boolean => {
+            logger.warning(LogCategory.Session, `${what} for session ${this.id} failed, staying on the WebSocket`, error);
+            channel.close();
+            pc.close();
+            if (error instanceof CancelledError) {
+                throw error;
+            }
+            return false;
+        };
+
+        try {
+            let offerAccepted = false;
+            const localCandidates: string[] = [];
+            let gatheringDone = false;
+
+            const flushCandidates = () => {
+                if (localCandidates.length > 0) {
+                    const candidates = localCandidates.splice(0);
+                    previousSession.addCandidates(candidates).catch(error => {
+                        logger.warning(LogCategory.Session, `Unable to add ICE candidates for session ${this.id}`, error);
+                    });
+                }
+                if (gatheringDone) {
+                    previousSession.notifyCandidateGatheringDone().catch(() => {});
+                }
+            };
+
+            pc.addEventListener("icecandidate", event => {
+                if (event.candidate !== null && event.candidate.candidate.length > 0) {
+                    const { candidate } = event.candidate;
+                    localCandidates.push(candidate.startsWith("a=") ? candidate : `a=${candidate}`);
+                } else {
+                    gatheringDone = true;
+                }
+                if (offerAccepted) {
+                    flushCandidates();
+                }
+            });
+
+            const offer = await pc.createOffer();
+            await pc.setLocalDescription(offer);
+
+            const answerSdp = await previousSession.offerPeerConnection(offer.sdp!, rawOptions, callOptions);
+            offerAccepted = true;
+            await pc.setRemoteDescription({ type: "answer", sdp: answerSdp });
+            flushCandidates();
+
+            await waitForDataChannel(channel, timeout, callOptions.signal);
+        } catch (error) {
+            return abandon("Peer connection", error);
+        }
+
+        const transport = new DataChannelTransport(channel);
+
+        let peerSession: AgentSession;
+        try {
+            await previousSession.beginMigration(callOptions);
+            peerSession = this._controller._createPeerSession(this, transport);
+            await peerSession.commitMigration(callOptions);
+        } catch (error) {
+            return abandon("Migration", error);
+        }
+
+        this._obsoleteSession = previousSession;
+        this._activeSession = peerSession;
+        this._peerConnection = pc;
+
+        transport.once("close", () => {
+            if (this._peerConnection === pc) {
+                this._peerConnection = null;
+                this._onDetached(SessionDetachReason.ConnectionTerminated, null);
+            }
+        });
+
+        logger.info(LogCategory.Session, `Session ${this.id} migrated to a peer connection`);
+
+        return true;
+    }
+
+    async enableChildGating(callOptions: CallOptions = {}): Promise<void> {
+        await this._activeSession.enableChildGating(callOptions);
+    }
+
+    async disableChildGating(callOptions: CallOptions = {}): Promise<void> {
+        await this._activeSession.disableChildGating(callOptions);
+    }
+
+    async createScript<TExports extends object = ScriptExports>(source: string, options: ScriptOptions = {}, callOptions: CallOptions = {}): Promise<Script<TExports>> {
+        const sourceMap = this._loadSourceMap(() => (options.sourceMap !== undefined) ? SourceMap.parse(options.sourceMap) : SourceMap.fromSource(source));
+        const id = await this._activeSession.createScript(source, makeScriptOptions(options), callOptions);
+        return this._registerScript<TExports>(id, sourceMap);
+    }
+
+    async createScriptFromBytes<TExports extends object = ScriptExports>(bytes: Uint8Array | ArrayBuffer, options: ScriptOptions = {}, callOptions: CallOptions = {}): Promise<Script<TExports>> {
+        const sourceMap = this._loadSourceMap(() => (options.sourceMap !== undefined) ? SourceMap.parse(options.sourceMap) : null);
+        const id = await this._activeSession.createScriptFromBytes(toBytes(bytes), makeScriptOptions(options), callOptions);
+        return this._registerScript<TExports>(id, sourceMap);
+    }
+
+    async compileScript(source: string, options: CompileOptions = {}, callOptions: CallOptions = {}): Promise<Uint8Array> {
         const rawOptions: VariantDict = {};
         const { name, runtime } = options;
         if (name !== undefined) {
@@ -125,8 +316,33 @@ export class Session {
             rawOptions.runtime = { signature: "s", value: runtime };
         }
 
-        const id = await this._activeSession.createScript(source, rawOptions);
-        const script = new Script(this, id);
+        return await this._activeSession.compileScript(source, rawOptions, callOptions);
+    }
+
+    async snapshotScript(embedScript: string, options: SnapshotOptions = {}, callOptions: CallOptions = {}): Promise<Uint8Array> {
+        const rawOptions: VariantDict = {};
+        const { warmupScript, runtime } = options;
+        if (warmupScript !== undefined) {
+            rawOptions["warmup-script"] = { signature: "s", value: warmupScript };
+        }
+        if (runtime !== undefined) {
+            rawOptions.runtime = { signature: "s", value: runtime };
+        }
+
+        return await this._activeSession.snapshotScript(embedScript, rawOptions, callOptions);
+    }
+
+    /**
+     * Makes the attached process available through a frida-portal at `address`,
+     * e.g. "portal.example.com:27042", until the membership is terminated.
+     */
+    async joinPortal(address: string, options: PortalOptions = {}, callOptions: CallOptions = {}): Promise<PortalMembership> {
+        const [id] = await this._activeSession.joinPortal(address, makePortalOptions(options), callOptions);
+        return new PortalMembership(this, id);
+    }
+
+    private _registerScript<TExports extends object>(id: AgentScriptId, sourceMap: SourceMap | null): Script<TExports> {
+        const script = new Script<TExports>(this, id, sourceMap);
         this._scripts.set(id[0], script);
 
         script._events.once("destroyed", () => {
@@ -136,69 +352,203 @@ export class Session {
         return script;
     }
 
-    _postToAgent(record: AgentMessageRecord): void {
-        this._pendingMessages.push({
-            serial: this._nextSerial++,
-            record,
+    private _loadSourceMap(load: () => SourceMap | null): SourceMap | null {
+        // Source maps only improve stack traces, so a broken one must not keep a script from loading.
+        try {
+            return load();
+        } catch (error) {
+            this._controller._logger.warning(LogCategory.Script, `Ignoring unusable source map for a script in session ${this.id}`, error);
+            return null;
+        }
+    }
+
+    _postToAgent(record: AgentMessageRecord): Promise<void> {
+        if (this._state === "detached") {
+            return Promise.reject(new InvalidOperationError("Session is detached"));
+        }
+
+        const delivered = new Promise<void>((resolve, reject) => {
+            this._pendingMessages.push({
+                serial: this._nextSerial++,
+                record,
+                deliveryAttempts: 0,
+                resolve,
+                reject,
+            });
         });
+        // Failures are also reported through deliveryFailed, so fire-and-forget callers
+        // must not trigger unhandled rejections.
+        delivered.catch(() => {});
 
         this._deliverPendingMessages();
+
+        return delivered;
     }
 
     _handleIncomingMessages(messages: AgentMessageRecord[], batchId: number): void {
-        console.log('Session._handleIncomingMessages called:', { messages, batchId });
         this._sink.postMessages(messages, batchId);
     }
 
     private _deliverPendingMessages(): void {
-        if (this._pendingDeliveries > 0) {
+        if (this._state !== "attached" || this._pendingDeliveries > 0 || this._retryTimer !== null) {
             return;
         }
 
-        const messages = this._pendingMessages;
-        if (messages.length === 0) {
+        if (this._pendingMessages.length === 0) {
             return;
         }
 
+        // A failed batch is resent on its own and under the same batch ID, so that the
+        // agent can recognize messages it already received.
+        const retrying = this._pendingMessages[0].deliveryAttempts > 0;
+        let count = this._pendingMessages.length;
+        if (retrying) {
+            const end = this._pendingMessages.findIndex(m => m.deliveryAttempts === 0);
+            if (end !== -1) {
+                count = end;
+            }
+        }
+
+        const messages = this._pendingMessages.slice(0, count);
         const batchId = messages[messages.length - 1].serial;
-        const records = messages.map(m => m.record);
+        const records = messages.map(m => {
+            m.deliveryAttempts++;
+            return m.record;
+        });
 
-        this._pendingMessages = [];
+        this._pendingMessages = this._pendingMessages.slice(count);
+        this._inFlightMessages = messages;
         this._pendingDeliveries++;
 
         this._activeSession.postMessages(records, batchId).then(() => {
             this._pendingDeliveries--;
+            this._inFlightMessages = [];
+            for (const message of messages) {
+                message.resolve();
+            }
             this._deliverPendingMessages();
-        }).catch(() => {
+        }, error => {
             this._pendingDeliveries--;
+            this._inFlightMessages = [];
+            this._onDeliveryFailed(messages, error);
         });
     }
 
+    private _onDeliveryFailed(messages: PendingMessage[], error: Error): void {
+        const logger = this._controller._logger;
+
+        const canRetry = this._state !== "detached" &&
+            messages.every(m => m.deliveryAttempts < MAX_DELIVERY_ATTEMPTS);
+        if (!canRetry) {
+            logger.warning(LogCategory.Session, `Session ${this.id} dropped ${messages.length} message(s)`, error);
+            for (const message of messages) {
+                message.reject(error);
+            }
+            this._events.emit("delivery-failed", error, messages.length, false);
+            this._deliverPendingMessages();
+            return;
+        }
+
+        logger.debug(LogCategory.Session, `Session ${this.id} will retry ${messages.length} message(s)`, error);
+        this._pendingMessages = messages.concat(this._pendingMessages);
+        this._events.emit("delivery-failed", error, messages.length, true);
+
+        if (this._state === "attached") {
+            const attempts = messages[0].deliveryAttempts;
+            this._retryTimer = setTimeout(() => {
+                this._retryTimer = null;
+                this._deliverPendingMessages();
+            }, RETRY_DELAY * 2 ** (attempts - 1));
+        }
+    }
+
+    private _failPendingMessages(error: Error): void {
+        if (this._retryTimer !== null) {
+            clearTimeout(this._retryTimer);
+            this._retryTimer = null;
+        }
+
+        const messages = this._pendingMessages;
+        this._pendingMessages = [];
+        for (const message of messages) {
+            message.reject(error);
+        }
+    }
+
+    private _closePeerConnection(): void {
+        const pc = this._peerConnection;
+        if (pc !== null) {
+            this._peerConnection = null;
+            pc.close();
+        }
+    }
+
+    private _clearPersistTimer(): void {
+        if (this._persistTimer !== null) {
+            clearTimeout(this._persistTimer);
+            this._persistTimer = null;
+        }
+    }
+
     private _dispatchMessages = (messages: AgentMessageRecord[], batchId: number): void => {
-        console.log('Session._dispatchMessages called:', { messages, batchId, scriptsCount: this._scripts.size });
-        this._lastRxBatchId = batchId;
+        const logger = this._controller._logger;
+        logger.debug(LogCategory.Session, `Session ${this.id} received batch ${batchId} with ${messages.length} message(s)`);
+        if (batchId !== 0 && batchId <= this._lastRxBatchId) {
+            logger.debug(LogCategory.Session, `Session ${this.id} ignoring replayed batch ${batchId}`);
+            return;
+        }
 
         for (const [kind, scriptId, text, hasData, data] of messages) {
-            console.log('Processing message:', { kind, scriptId, text, hasData, dataLength: data?.length });
             const script = this._scripts.get(scriptId[0]);
             if (script === undefined) {
-                console.log('Script not found for scriptId:', scriptId);
+                logger.debug(LogCategory.Session, `Dropping message for unknown script ${scriptId[0]}`);
+                continue;
+            }
+
+            if (kind === AgentMessageKind.Debugger) {
+                script._dispatchDebuggerMessage(text);
                 continue;
             }
 
             let message;
             try {
                 message = JSON.parse(text);
-                console.log('Parsed message:', message);
             } catch (error) {
-                console.error('Failed to parse message text:', text, error);
+                logger.error(LogCategory.Script, `Failed to parse message from script ${scriptId[0]}`, text);
                 continue;
             }
 
-            const binaryData = hasData ? new Uint8Array(data).buffer : null;
-            console.log('Dispatching to script:', { message, binaryData });
+            logger.debug(LogCategory.Script, `Message from script ${scriptId[0]}`, message);
+            const binaryData = hasData ? toArrayBuffer(data) : null;
             script._dispatchMessage(message, binaryData);
         }
+
+        if (batchId !== 0) {
+            this._lastRxBatchId = batchId;
+        }
+    }
+
+    _onInterrupted(): void {
+        if (this._state !== "attached") {
+            return;
+        }
+
+        this._state = "interrupted";
+
+        if (this._retryTimer !== null) {
+            clearTimeout(this._retryTimer);
+            this._retryTimer = null;
+        }
+
+        this._persistTimer = setTimeout(() => {
+            this._persistTimer = null;
+            this._onDetached(SessionDetachReason.ConnectionTerminated, null);
+        }, this.persistTimeout * 1000);
+    }
+
+    async _reattach(session: AgentSession): Promise<void> {
+        this._activeSession = session;
+        await this.resume();
     }
 
     _onDetached(reason: SessionDetachReason, crash: Crash | null): void {
@@ -207,6 +557,9 @@ export class Session {
         }
 
         this._state = "detached";
+        this._clearPersistTimer();
+        this._failPendingMessages(new InvalidOperationError("Session is detached"));
+        this._closePeerConnection();
 
         for (const script of this._scripts.values()) {
             script._destroy();
@@ -217,7 +570,45 @@ export class Session {
     }
 }
 
+function makeScriptOptions(options: ScriptOptions): VariantDict {
+    const rawOptions: VariantDict = {};
+    const { name, snapshot, snapshotTransport, runtime } = options;
+    if (name !== undefined) {
+        rawOptions.name = { signature: "s", value: name };
+    }
+    if (snapshot !== undefined) {
+        rawOptions.snapshot = { signature: "ay", value: toBytes(snapshot) };
+    }
+    if (snapshotTransport !== undefined) {
+        rawOptions["snapshot-transport"] = { signature: "s", value: snapshotTransport };
+    }
+    if (runtime !== undefined) {
+        rawOptions.runtime = { signature: "s", value: runtime };
+    }
+    return rawOptions;
+}
+
+function makePortalOptions(options: PortalOptions): VariantDict {
+    const rawOptions: VariantDict = {};
+    const { certificate, token, acl } = options;
+    if (certificate !== undefined) {
+        rawOptions.certificate = { signature: "s", value: certificate };
+    }
+    if (token !== undefined) {
+        rawOptions.token = { signature: "s", value: token };
+    }
+    if (acl !== undefined) {
+        rawOptions.acl = { signature: "as", value: acl };
+    }
+    return rawOptions;
+}
+
+function toBytes(data: Uint8Array | ArrayBuffer): Uint8Array {
+    return (data instanceof Uint8Array) ? data : new Uint8Array(data);
+}
+
 export type SessionDetachedHandler = (reason: SessionDetachReason, crash: Crash | null) => void;
+export type DeliveryFailedHandler = (error: Error, messageCount: number, willRetry: boolean) => void;
 
 export enum SessionDetachReason {
     ApplicationRequested = "application-requested",
@@ -229,20 +620,38 @@ export enum SessionDetachReason {
 }
 
 export interface SessionController {
-   
+    _logger: Logger;
+    _createPeerSession(session: Session, transport: Transport): AgentSession;
 }
 
 interface PendingMessage {
     serial: number;
     record: AgentMessageRecord;
+    deliveryAttempts: number;
+    resolve(): void;
+    reject(error: Error): void;
 }
 
+const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_DELAY = 500;
+
 
 export interface PeerOptions {
     stun?: string[];
     turn?: TurnServer[];
+    relays?: Relay[];
+    /**
+     * How long to wait for the data channel to open before falling back, in milliseconds.
+     */
+    timeout?: number;
+    /**
+     * RTCPeerConnection implementation to use where there is no global one, e.g. in Node.
+     */
+    RTCPeerConnection?: RTCPeerConnectionConstructor;
 }
 
+export type RTCPeerConnectionConstructor = new (configuration?: RTCConfiguration) => RTCPeerConnection;
+
 export interface TurnServer {
     urls: string | string[];
     username?: string;
@@ -260,4 +669,10 @@ export enum RelayKind {
     TurnUdp = "turn-udp",
     TurnTcp = "turn-tcp",
     TurnTls = "turn-tls"
-}
\ No newline at end of file
+}
+
+const relayKindCodes: { [kind in RelayKind]: number } = {
+    [RelayKind.TurnUdp]: 0,
+    [RelayKind.TurnTcp]: 1,
+    [RelayKind.TurnTls]: 2,
+};
\ No newline at end of file
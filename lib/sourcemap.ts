@@ -0,0 +1,180 @@
+/*
+ * Minimal Source Map v3 reader, used to translate locations in bundled agent
+ * code back to the original sources.
+ */
+
+export interface RawSourceMap {
+    version: number;
+    file?: string;
+    sourceRoot?: string;
+    sources: string[];
+    names?: string[];
+    mappings: string;
+}
+
+export interface OriginalPosition {
+    source: string;
+    line: number;
+    column: number;
+    name: string | null;
+}
+
+type Segment = [generatedColumn: number, source: number, line: number, column: number, name: number];
+
+const base64Digits = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const base64Values = new Map<string, number>(Array.from(base64Digits, (digit, i) => [digit, i]));
+
+const inlineSourceMapPattern = /\/\/[#@]\s*sourceMappingURL=data:application\/json(?:;charset=[^;,]+)?;base64,([A-Za-z0-9+/=]+)\s*$/m;
+const locationPattern = /([^\s()@]+\.js):(\d+)(?::(\d+))?/g;
+
+export class SourceMap {
+    private readonly sources: string[];
+    private readonly names: string[];
+    private readonly lines: Segment[][];
+
+    constructor(raw: RawSourceMap) {
+        if (raw.version !== 3) {
+            throw new Error(`Unsupported source map version: ${raw.version}`);
+        }
+
+        const root = (raw.sourceRoot !== undefined && raw.sourceRoot.length > 0)
+            ? raw.sourceRoot.replace(/\/?$/, "/")
+            : "";
+        this.sources = raw.sources.map(source => root + source);
+        this.names = raw.names ?? [];
+        this.lines = decodeMappings(raw.mappings);
+    }
+
+    static parse(map: string | RawSourceMap): SourceMap {
+        return new SourceMap((typeof map === "string") ? JSON.parse(map) : map);
+    }
+
+    /**
+     * Extracts an inline `sourceMappingURL` data URL from script source, if any.
+     */
+    static fromSource(source: string): SourceMap | null {
+        const match = inlineSourceMapPattern.exec(source);
+        if (match === null) {
+            return null;
+        }
+
+        const binary = atob(match[1]);
+        const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+        return SourceMap.parse(new TextDecoder().decode(bytes));
+    }
+
+    /**
+     * Looks up a generated position. Lines and columns are 1-based, as in stack
+     * traces. When the column is unknown, the first mapping on the line is used.
+     */
+    originalPositionFor(line: number, column: number | null): OriginalPosition | null {
+        const segments = this.lines[line - 1];
+        if (segments === undefined || segments.length === 0) {
+            return null;
+        }
+
+        let segment: Segment | undefined;
+        if (column === null) {
+            segment = segments[0];
+        } else {
+            for (const candidate of segments) {
+                if (candidate[0] > column - 1) {
+                    break;
+                }
+                segment = candidate;
+            }
+        }
+        if (segment === undefined || segment[1] === -1) {
+            return null;
+        }
+
+        const [, source, originalLine, originalColumn, name] = segment;
+        return {
+            source: this.sources[source],
+            line: originalLine + 1,
+            column: originalColumn + 1,
+            name: (name !== -1) ? this.names[name] : null,
+        };
+    }
+
+    /**
+     * Rewrites every `file.js:line[:column]` location in a stack trace or log
+     * line that belongs to the agent, leaving Frida's own runtime frames alone.
+     */
+    rewriteLocations(text: string): string {
+        return text.replace(locationPattern, (location, file: string, line: string, column: string | undefined) => {
+            if (isRuntimeFile(file)) {
+                return location;
+            }
+            const position = this.originalPositionFor(parseInt(line), (column !== undefined) ? parseInt(column) : null);
+            if (position === null) {
+                return location;
+            }
+            return `${position.source}:${position.line}:${position.column}`;
+        });
+    }
+}
+
+function isRuntimeFile(file: string): boolean {
+    return file.startsWith("/_") || file.includes("frida/");
+}
+
+function decodeMappings(mappings: string): Segment[][] {
+    const lines: Segment[][] = [];
+    let source = 0;
+    let line = 0;
+    let column = 0;
+    let name = 0;
+
+    for (const lineMappings of mappings.split(";")) {
+        const segments: Segment[] = [];
+        let generatedColumn = 0;
+
+        for (const encoded of lineMappings.split(",")) {
+            if (encoded.length === 0) {
+                continue;
+            }
+            const fields = decodeVlq(encoded);
+            generatedColumn += fields[0];
+            if (fields.length >= 4) {
+                source += fields[1];
+                line += fields[2];
+                column += fields[3];
+                if (fields.length >= 5) {
+                    name += fields[4];
+                }
+                segments.push([generatedColumn, source, line, column, (fields.length >= 5) ? name : -1]);
+            } else {
+                segments.push([generatedColumn, -1, 0, 0, -1]);
+            }
+        }
+
+        segments.sort((a, b) => a[0] - b[0]);
+        lines.push(segments);
+    }
+
+    return lines;
+}
+
+function decodeVlq(encoded: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+
+    for (const digit of encoded) {
+        const bits = base64Values.get(digit);
+        if (bits === undefined) {
+            throw new Error(`Invalid character in source map mappings: ${digit}`);
+        }
+        value += (bits & 0x1f) << shift;
+        if ((bits & 0x20) !== 0) {
+            shift += 5;
+            continue;
+        }
+        values.push(((value & 1) !== 0) ? -(value >>> 1) : (value >>> 1));
+        value = 0;
+        shift = 0;
+    }
+
+    return values;
+}
@@ -0,0 +1,4 @@
+export interface Spawn {
+    pid: number;
+    identifier: string | null;
+}
\ No newline at end of file
@@ -0,0 +1,156 @@
+export interface Transport {
+    on(event: TransportEvent, listener: Function): void;
+    once(event: TransportEvent, listener: Function): void;
+    off(event: TransportEvent, listener: Function): void;
+    send(data: ArrayBuffer): void;
+    close(): void;
+}
+
+export type TransportEvent = "open" | "message" | "close" | "error";
+
+export type TransportFactory = (url: string) => Transport;
+
+export interface WebSocketLike {
+    binaryType: string;
+    addEventListener(type: string, listener: (event: any) => void): void;
+    send(data: ArrayBuffer): void;
+    close(): void;
+}
+
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
+export interface WebSocketConstructor {
+    new (url: string): WebSocketLike;
+}
+
+export function webSocketTransport(factory: WebSocketFactory = url => new WebSocket(url)): TransportFactory {
+    return url => new WebSocketWrapper(factory(url));
+}
+
+export function nodeWebSocketTransport(WebSocketImpl: WebSocketConstructor): TransportFactory {
+    return webSocketTransport(url => new WebSocketImpl(url));
+}
+
+export function createTransportPair(): [Transport, Transport] {
+    const a = new InMemoryTransport();
+    const b = new InMemoryTransport();
+    a._connect(b);
+    b._connect(a);
+    return [a, b];
+}
+
+export abstract class BaseTransport implements Transport {
+    private listeners = new Map<string, Function[]>();
+
+    protected emit(eventName: TransportEvent, data?: any) {
+        const eventListeners = this.listeners.get(eventName) || [];
+        eventListeners.slice().forEach(listener => listener(data));
+    }
+
+    on(event: TransportEvent, listener: Function) {
+        if (!this.listeners.has(event)) {
+            this.listeners.set(event, []);
+        }
+        this.listeners.get(event)!.push(listener);
+    }
+
+    once(event: TransportEvent, listener: Function) {
+        const onceWrapper = (data: any) => {
+            listener(data);
+            this.off(event, onceWrapper);
+        };
+        this.on(event, onceWrapper);
+    }
+
+    off(event: TransportEvent, listener: Function) {
+        const eventListeners = this.listeners.get(event);
+        if (eventListeners) {
+            const index = eventListeners.indexOf(listener);
+            if (index > -1) {
+                eventListeners.splice(index, 1);
+            }
+        }
+    }
+
+    abstract send(data: ArrayBuffer): void;
+    abstract close(): void;
+}
+
+class WebSocketWrapper extends BaseTransport {
+    private incoming: Promise<void> = Promise.resolve();
+
+    constructor(private ws: WebSocketLike) {
+        super();
+        this.ws.binaryType = "arraybuffer";
+        this.setupWebSocketListeners();
+    }
+
+    private setupWebSocketListeners() {
+        this.ws.addEventListener('open', () => {
+            this.emit('open');
+        });
+
+        this.ws.addEventListener('close', (event) => {
+            this.emit('close', event);
+        });
+        
+        this.ws.addEventListener('error', (event) => {
+            this.emit('error', event);
+        });
+        
+        this.ws.addEventListener('message', (event) => {
+            const data = event.data;
+            if (typeof Blob !== "undefined" && data instanceof Blob) {
+                this.incoming = this.incoming.then(async () => {
+                    this.emit('message', await data.arrayBuffer());
+                });
+            } else if (ArrayBuffer.isView(data)) {
+                this.emit('message', data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+            } else {
+                this.emit('message', data);
+            }
+        });
+    }
+
+    send(data: ArrayBuffer) {
+        this.ws.send(data);
+    }
+
+    close() {
+        this.ws.close();
+    }
+}
+
+class InMemoryTransport extends BaseTransport {
+    private peer: InMemoryTransport | null = null;
+    private closed = false;
+
+    _connect(peer: InMemoryTransport) {
+        this.peer = peer;
+        queueMicrotask(() => this.emit('open'));
+    }
+
+    send(data: ArrayBuffer) {
+        if (this.closed) {
+            throw new Error("Transport is closed");
+        }
+        const peer = this.peer!;
+        const copy = data.slice(0);
+        queueMicrotask(() => peer._receive(copy));
+    }
+
+    close() {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.emit('close');
+        this.peer!.close();
+    }
+
+    private _receive(data: ArrayBuffer) {
+        if (!this.closed) {
+            this.emit('message', data);
+        }
+    }
+}
\ No newline at end of file
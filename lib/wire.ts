@@ -0,0 +1,476 @@
+import {
+    parseTypes,
+    serializeType,
+    BasicTypeCode,
+    ContainerTypeCode,
+} from 'd-bus-type-system';
+import type { CompleteType, DictEntryType } from 'd-bus-type-system';
+import { MessageType } from 'd-bus-message-protocol';
+import type { Message } from 'd-bus-message-protocol';
+
+/*
+ * D-Bus wire format encoder and decoder.
+ *
+ * Values use the same shapes as d-bus-message-protocol, except that byte
+ * arrays (`ay`) are carried as Uint8Array instead of one number per byte.
+ * Encoding writes into a single growable buffer, and decoding hands out
+ * views into the received frame, so large payloads are copied at most once.
+ */
+
+enum HeaderField {
+    ObjectPath = 1,
+    InterfaceName = 2,
+    MemberName = 3,
+    ErrorName = 4,
+    ReplySerial = 5,
+    Destination = 6,
+    Sender = 7,
+    Signature = 8,
+    UnixFds = 9,
+}
+
+enum Flag {
+    NoReplyExpected = 1,
+    NoAutoStart = 2,
+    AllowInteractiveAuthorization = 4,
+}
+
+const headerFieldsType = parseTypes("a(yv)")[0];
+const objectPathType = parseTypes("o")[0];
+const stringType = parseTypes("s")[0];
+const signatureType = parseTypes("g")[0];
+const uint32Type = parseTypes("u")[0];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder("utf-8", { fatal: true });
+
+type WireType = CompleteType | DictEntryType<any, any>;
+
+export function serializeMessage(message: Message): ArrayBuffer {
+    const body = new WireWriter();
+    const types = message.types ?? [];
+    types.forEach((type, i) => marshal(body, type, message.args?.[i]));
+
+    const fields: [number, [CompleteType, unknown]][] = [];
+    if (message.destination !== undefined) {
+        fields.push([HeaderField.Destination, [stringType, message.destination]]);
+    }
+    if (message.sender !== undefined) {
+        fields.push([HeaderField.Sender, [stringType, message.sender]]);
+    }
+    if (types.length > 0) {
+        fields.push([HeaderField.Signature, [signatureType, types.map(serializeType).join("")]]);
+    }
+    if (message.unixFds !== undefined) {
+        fields.push([HeaderField.UnixFds, [uint32Type, message.unixFds]]);
+    }
+    switch (message.messageType) {
+        case MessageType.MethodCall:
+        case MessageType.Signal:
+            fields.push([HeaderField.ObjectPath, [objectPathType, message.objectPath]]);
+            if (message.interfaceName !== undefined) {
+                fields.push([HeaderField.InterfaceName, [stringType, message.interfaceName]]);
+            }
+            fields.push([HeaderField.MemberName, [stringType, message.memberName]]);
+            break;
+        case MessageType.Error:
+            fields.push([HeaderField.ErrorName, [stringType, message.errorName]]);
+            fields.push([HeaderField.ReplySerial, [uint32Type, message.replySerial]]);
+            break;
+        case MessageType.MethodReturn:
+            fields.push([HeaderField.ReplySerial, [uint32Type, message.replySerial]]);
+            break;
+    }
+
+    const flags = (message.noReplyExpected ? Flag.NoReplyExpected : 0) |
+        (message.noAutoStart ? Flag.NoAutoStart : 0) |
+        (message.allowInteractiveAuthorization ? Flag.AllowInteractiveAuthorization : 0);
+
+    const writer = new WireWriter(body.length + 256);
+    writer.writeUint8("l".charCodeAt(0));
+    writer.writeUint8(message.messageType);
+    writer.writeUint8(flags);
+    writer.writeUint8(1);
+    writer.writeUint32(body.length);
+    writer.writeUint32(message.serial);
+    marshal(writer, headerFieldsType, fields);
+    writer.align(8);
+    writer.writeBytes(body.bytes.subarray(0, body.length));
+
+    return writer.toArrayBuffer();
+}
+
+export function parseMessages(data: ArrayBuffer): Message[] {
+    const messages: Message[] = [];
+    const bytes = new Uint8Array(data);
+    let offset = 0;
+    while (offset < bytes.byteLength) {
+        const endianness = String.fromCharCode(bytes[offset]);
+        if (endianness !== "l" && endianness !== "B") {
+            break;
+        }
+        const reader = new WireReader(bytes.subarray(offset), endianness === "l");
+        messages.push(parseMessage(reader));
+        offset += reader.offset;
+    }
+    return messages;
+}
+
+/**
+ * Returns the total length of the message starting at `bytes`, or null if not
+ * enough of its header is available yet. Used to reassemble messages carried
+ * over byte streams that do not preserve message boundaries.
+ */
+export function measureMessage(bytes: Uint8Array): number | null {
+    if (bytes.byteLength < 16) {
+        return null;
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const littleEndian = bytes[0] === "l".charCodeAt(0);
+    const bodyLength = view.getUint32(4, littleEndian);
+    const fieldsLength = view.getUint32(12, littleEndian);
+    const headerLength = 16 + fieldsLength;
+    return headerLength + ((8 - (headerLength % 8)) % 8) + bodyLength;
+}
+
+function parseMessage(reader: WireReader): Message {
+    reader.readUint8();
+    const messageType: MessageType = reader.readUint8();
+    const flags = reader.readUint8();
+    const version = reader.readUint8();
+    const bodyLength = reader.readUint32();
+    const serial = reader.readUint32();
+    const fields: [number, [CompleteType, any]][] = unmarshal(reader, headerFieldsType);
+
+    if (version !== 1) {
+        throw new Error("Incompatible major protocol version");
+    }
+
+    const field = (code: HeaderField): any => fields.find(([fieldCode]) => fieldCode === code)?.[1][1];
+    const requiredField = (code: HeaderField): any => {
+        const value = field(code);
+        if (value === undefined) {
+            throw new Error(`Required header field ${HeaderField[code]} is missing`);
+        }
+        return value;
+    };
+
+    reader.align(8);
+    const bodyStart = reader.offset;
+    const signature: string | undefined = field(HeaderField.Signature);
+    const types = (signature !== undefined && signature.length > 0) ? parseTypes(signature) : undefined;
+    const args = types?.map(type => unmarshal(reader, type));
+    if (reader.offset - bodyStart !== bodyLength) {
+        throw new Error("Invalid length in bytes of the message body");
+    }
+
+    const common = {
+        serial,
+        noReplyExpected: (flags & Flag.NoReplyExpected) !== 0,
+        noAutoStart: (flags & Flag.NoAutoStart) !== 0,
+        allowInteractiveAuthorization: (flags & Flag.AllowInteractiveAuthorization) !== 0,
+        destination: field(HeaderField.Destination),
+        sender: field(HeaderField.Sender),
+        types,
+        unixFds: field(HeaderField.UnixFds),
+        args,
+    } as any;
+
+    switch (messageType) {
+        case MessageType.MethodCall:
+            return {
+                ...common,
+                messageType,
+                objectPath: requiredField(HeaderField.ObjectPath),
+                interfaceName: field(HeaderField.InterfaceName),
+                memberName: requiredField(HeaderField.MemberName),
+            };
+        case MessageType.MethodReturn:
+            return {
+                ...common,
+                messageType,
+                replySerial: requiredField(HeaderField.ReplySerial),
+            };
+        case MessageType.Error:
+            return {
+                ...common,
+                messageType,
+                errorName: requiredField(HeaderField.ErrorName),
+                replySerial: requiredField(HeaderField.ReplySerial),
+            };
+        case MessageType.Signal:
+            return {
+                ...common,
+                messageType,
+                objectPath: requiredField(HeaderField.ObjectPath),
+                interfaceName: requiredField(HeaderField.InterfaceName),
+                memberName: requiredField(HeaderField.MemberName),
+            };
+    }
+
+    throw new Error(`Invalid message type: ${messageType}`);
+}
+
+function marshal(writer: WireWriter, type: WireType, value: any): void {
+    writer.align(type.bytePadding);
+    switch (type.typeCode) {
+        case BasicTypeCode.Uint8:
+            writer.writeUint8(value);
+            break;
+        case BasicTypeCode.Int16:
+            writer.writeInt16(value);
+            break;
+        case BasicTypeCode.Uint16:
+            writer.writeUint16(value);
+            break;
+        case BasicTypeCode.Int32:
+            writer.writeInt32(value);
+            break;
+        case BasicTypeCode.Uint32:
+        case BasicTypeCode.UnixFd:
+            writer.writeUint32(value);
+            break;
+        case BasicTypeCode.BigInt64:
+            writer.writeBigInt64(BigInt(value));
+            break;
+        case BasicTypeCode.BigUint64:
+            writer.writeBigUint64(BigInt(value));
+            break;
+        case BasicTypeCode.Float64:
+            writer.writeFloat64(value);
+            break;
+        case BasicTypeCode.Boolean:
+            writer.writeUint32(value ? 1 : 0);
+            break;
+        case BasicTypeCode.String:
+        case BasicTypeCode.ObjectPath:
+        case BasicTypeCode.Signature: {
+            const encoded = textEncoder.encode(value);
+            if (type.typeCode === BasicTypeCode.Signature) {
+                writer.writeUint8(encoded.byteLength);
+            } else {
+                writer.writeUint32(encoded.byteLength);
+            }
+            writer.writeBytes(encoded);
+            writer.writeUint8(0);
+            break;
+        }
+        case ContainerTypeCode.Array: {
+            const lengthOffset = writer.reserve(4);
+            writer.align(type.elementType.bytePadding);
+            const start = writer.length;
+            if (type.elementType.typeCode === BasicTypeCode.Uint8) {
+                writer.writeBytes((value instanceof Uint8Array) ? value : Uint8Array.from(value as ArrayLike<number>));
+            } else {
+                for (const element of value) {
+                    marshal(writer, type.elementType, element);
+                }
+            }
+            writer.view.setUint32(lengthOffset, writer.length - start, true);
+            break;
+        }
+        case ContainerTypeCode.Struct:
+            type.fieldTypes.forEach((fieldType: CompleteType, i: number) => marshal(writer, fieldType, value[i]));
+            break;
+        case ContainerTypeCode.Variant: {
+            const [variantType, variantValue] = value as [CompleteType, unknown];
+            marshal(writer, signatureType, serializeType(variantType));
+            marshal(writer, variantType, variantValue);
+            break;
+        }
+        case ContainerTypeCode.DictEntry:
+            marshal(writer, type.keyType, value[0]);
+            marshal(writer, type.valueType, value[1]);
+            break;
+    }
+}
+
+function unmarshal(reader: WireReader, type: WireType): any {
+    reader.align(type.bytePadding);
+    switch (type.typeCode) {
+        case BasicTypeCode.Uint8:
+            return reader.readUint8();
+        case BasicTypeCode.Int16:
+            return reader.view.getInt16(reader.advance(2), reader.littleEndian);
+        case BasicTypeCode.Uint16:
+            return reader.view.getUint16(reader.advance(2), reader.littleEndian);
+        case BasicTypeCode.Int32:
+            return reader.view.getInt32(reader.advance(4), reader.littleEndian);
+        case BasicTypeCode.Uint32:
+        case BasicTypeCode.UnixFd:
+            return reader.readUint32();
+        case BasicTypeCode.BigInt64:
+            return reader.view.getBigInt64(reader.advance(8), reader.littleEndian);
+        case BasicTypeCode.BigUint64:
+            return reader.view.getBigUint64(reader.advance(8), reader.littleEndian);
+        case BasicTypeCode.Float64:
+            return reader.view.getFloat64(reader.advance(8), reader.littleEndian);
+        case BasicTypeCode.Boolean: {
+            const value = reader.readUint32();
+            if (value !== 0 && value !== 1) {
+                throw new Error(`Invalid boolean value ${value} at offset ${reader.offset - 4}`);
+            }
+            return value === 1;
+        }
+        case BasicTypeCode.String:
+        case BasicTypeCode.ObjectPath:
+        case BasicTypeCode.Signature: {
+            const length = (type.typeCode === BasicTypeCode.Signature) ? reader.readUint8() : reader.readUint32();
+            const value = textDecoder.decode(reader.readBytes(length));
+            if (reader.readUint8() !== 0) {
+                throw new Error(`Expected NUL terminator at offset ${reader.offset - 1}`);
+            }
+            return value;
+        }
+        case ContainerTypeCode.Array: {
+            const length = reader.readUint32();
+            reader.align(type.elementType.bytePadding);
+            if (type.elementType.typeCode === BasicTypeCode.Uint8) {
+                return reader.readBytes(length);
+            }
+            const end = reader.offset + length;
+            const elements: any[] = [];
+            while (reader.offset < end) {
+                elements.push(unmarshal(reader, type.elementType));
+            }
+            if (reader.offset !== end) {
+                throw new Error(`Array overran its declared length of ${length} bytes`);
+            }
+            return elements;
+        }
+        case ContainerTypeCode.Struct:
+            return type.fieldTypes.map((fieldType: CompleteType) => unmarshal(reader, fieldType));
+        case ContainerTypeCode.Variant: {
+            const variantTypes = parseTypes(unmarshal(reader, signatureType));
+            if (variantTypes.length !== 1) {
+                throw new Error("Expected a single complete type in variant signature");
+            }
+            return [variantTypes[0], unmarshal(reader, variantTypes[0])];
+        }
+        case ContainerTypeCode.DictEntry:
+            return [unmarshal(reader, type.keyType), unmarshal(reader, type.valueType)];
+    }
+}
+
+class WireWriter {
+    bytes: Uint8Array;
+    view: DataView;
+    length = 0;
+
+    constructor(capacity = 256) {
+        this.bytes = new Uint8Array(capacity);
+        this.view = new DataView(this.bytes.buffer);
+    }
+
+    reserve(size: number): number {
+        const offset = this.length;
+        const required = offset + size;
+        if (required > this.bytes.byteLength) {
+            let capacity = this.bytes.byteLength * 2;
+            while (capacity < required) {
+                capacity *= 2;
+            }
+            const bytes = new Uint8Array(capacity);
+            bytes.set(this.bytes.subarray(0, offset));
+            this.bytes = bytes;
+            this.view = new DataView(bytes.buffer);
+        }
+        this.length = required;
+        return offset;
+    }
+
+    align(alignment: number): void {
+        const remainder = this.length % alignment;
+        if (remainder !== 0) {
+            const offset = this.reserve(alignment - remainder);
+            this.bytes.fill(0, offset, this.length);
+        }
+    }
+
+    writeUint8(value: number): void {
+        const offset = this.reserve(1);
+        this.view.setUint8(offset, value);
+    }
+
+    writeInt16(value: number): void {
+        const offset = this.reserve(2);
+        this.view.setInt16(offset, value, true);
+    }
+
+    writeUint16(value: number): void {
+        const offset = this.reserve(2);
+        this.view.setUint16(offset, value, true);
+    }
+
+    writeInt32(value: number): void {
+        const offset = this.reserve(4);
+        this.view.setInt32(offset, value, true);
+    }
+
+    writeUint32(value: number): void {
+        const offset = this.reserve(4);
+        this.view.setUint32(offset, value, true);
+    }
+
+    writeBigInt64(value: bigint): void {
+        const offset = this.reserve(8);
+        this.view.setBigInt64(offset, value, true);
+    }
+
+    writeBigUint64(value: bigint): void {
+        const offset = this.reserve(8);
+        this.view.setBigUint64(offset, value, true);
+    }
+
+    writeFloat64(value: number): void {
+        const offset = this.reserve(8);
+        this.view.setFloat64(offset, value, true);
+    }
+
+    writeBytes(data: Uint8Array): void {
+        const offset = this.reserve(data.byteLength);
+        this.bytes.set(data, offset);
+    }
+
+    toArrayBuffer(): ArrayBuffer {
+        return this.bytes.buffer.slice(0, this.length) as ArrayBuffer;
+    }
+}
+
+class WireReader {
+    readonly view: DataView;
+    offset = 0;
+
+    constructor(readonly bytes: Uint8Array, readonly littleEndian: boolean) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    advance(size: number): number {
+        const offset = this.offset;
+        if (offset + size > this.bytes.byteLength) {
+            throw new Error(`Unexpected end of message at offset ${offset}`);
+        }
+        this.offset = offset + size;
+        return offset;
+    }
+
+    align(alignment: number): void {
+        const remainder = this.offset % alignment;
+        if (remainder !== 0) {
+            this.advance(alignment - remainder);
+        }
+    }
+
+    readUint8(): number {
+        return this.view.getUint8(this.advance(1));
+    }
+
+    readUint32(): number {
+        return this.view.getUint32(this.advance(4), this.littleEndian);
+    }
+
+    readBytes(length: number): Uint8Array {
+        const offset = this.advance(length);
+        return this.bytes.subarray(offset, offset + length);
+    }
+}
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { Icon, IconFormat } from "../lib/application";
+import { Client, Scope } from "../lib/client";
+import { Variant } from "../lib/protocol";
+import { FakeServer } from "./fake-server";
+
+const pngImage = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe("Client.enumerateApplications()", () => {
+    let server: FakeServer;
+    let client: Client;
+
+    beforeEach(() => {
+        server = new FakeServer()
+            .handle("EnumerateApplications", () => [[
+                ["com.example.app", "Example", 1234, {
+                    icons: new Variant("aa{sv}", [
+                        {
+                            format: new Variant("s", "rgba"),
+                            width: new Variant("x", 16n),
+                            height: new Variant("x", 16n),
+                            image: new Variant("ay", new Uint8Array(16 * 16 * 4)),
+                        },
+                        {
+                            format: new Variant("s", "png"),
+                            image: new Variant("ay", pngImage),
+                        },
+                    ]),
+                    version: new Variant("s", "1.0"),
+                }],
+            ]]);
+        client = server.createClient();
+    });
+
+    afterEach(async () => {
+        await client.close();
+    });
+
+    it("decodes icons into Icon objects", async () => {
+        const [app] = await client.enumerateApplications({ scope: Scope.Full });
+
+        expect(app.parameters).toEqual({ version: { signature: "s", value: "1.0" } });
+        const [rgba, png] = app.icons;
+        expect(rgba).toBeInstanceOf(Icon);
+        expect(rgba).toMatchObject({ format: IconFormat.Rgba, width: 16, height: 16 });
+        expect(png).toMatchObject({ format: IconFormat.Png, width: 0, height: 0 });
+    });
+
+    it("turns a PNG icon into a Blob", async () => {
+        const [app] = await client.enumerateApplications({ scope: Scope.Full });
+
+        const blob = await app.icons[1].toBlob();
+
+        expect(blob.type).toBe("image/png");
+        expect(new Uint8Array(await blob.arrayBuffer())).toEqual(pngImage);
+    });
+});
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Channel } from "../lib/channel";
+import { Client } from "../lib/client";
+import { ChannelInterface } from "../lib/dbus";
+import { TransportError } from "../lib/errors";
+import { FakeServer, flush } from "./fake-server";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function readAll(channel: Channel): Promise<string> {
+    let text = "";
+    for await (const chunk of channel.readable as unknown as AsyncIterable<Uint8Array>) {
+        text += decoder.decode(chunk);
+    }
+    return text;
+}
+
+describe("Client.openChannel()", () => {
+    let server: FakeServer;
+    let client: Client;
+
+    function send(data: Uint8Array): void {
+        server.emit("/re/frida/Channel/42", ChannelInterface.name, "Message", "ay", [data]);
+    }
+
+    beforeEach(() => {
+        server = new FakeServer()
+            .handle("OpenChannel", () => [[42]]);
+        client = server.createClient();
+    });
+
+    afterEach(async () => {
+        await client.close();
+    });
+
+    it("keeps reading after the writable half is closed", async () => {
+        server.handle("Post", ({ args: [data] }) => {
+            setTimeout(() => {
+                send(encoder.encode(`echo:${decoder.decode(data)}`));
+                send(new Uint8Array(0));
+            }, 5);
+        });
+        const channel = await client.openChannel("tcp:8080");
+
+        const writer = channel.writable.getWriter();
+        await writer.write(encoder.encode("ping"));
+        await writer.close();
+
+        expect(server.callsTo("Close")).toHaveLength(0);
+        expect(await readAll(channel)).toBe("echo:ping");
+        await flush();
+        expect(server.callsTo("Close")).toHaveLength(1);
+        expect(channel.isClosed).toBe(true);
+    });
+
+    it("keeps writing after the readable half has ended", async () => {
+        const channel = await client.openChannel("tcp:8080");
+
+        send(new Uint8Array(0));
+        expect(await readAll(channel)).toBe("");
+
+        const writer = channel.writable.getWriter();
+        await writer.write(encoder.encode("late"));
+        expect(server.callsTo("Post")).toHaveLength(1);
+        expect(server.callsTo("Close")).toHaveLength(0);
+
+        await writer.close();
+        await flush();
+        expect(server.callsTo("Close")).toHaveLength(1);
+    });
+
+    it("closes once the readable half is cancelled and the writable half closed", async () => {
+        const channel = await client.openChannel("tcp:8080");
+
+        await channel.readable.cancel();
+        expect(server.callsTo("Close")).toHaveLength(0);
+
+        await channel.writable.close();
+        await flush();
+        expect(server.callsTo("Close")).toHaveLength(1);
+    });
+
+    it("closes both halves when closed", async () => {
+        const channel = await client.openChannel("tcp:8080");
+        const onClosed = vi.fn();
+        channel.closed.connect(onClosed);
+        const writer = channel.writable.getWriter();
+
+        await channel.close();
+
+        expect(await readAll(channel)).toBe("");
+        await expect(writer.write(encoder.encode("x"))).rejects.toBeInstanceOf(TransportError);
+        expect(onClosed).toHaveBeenCalledWith(null);
+        expect(server.callsTo("Close")).toHaveLength(1);
+    });
+
+    it("closes the channel when unread data exceeds the high-water mark", async () => {
+        const channel = await client.openChannel("tcp:8080", { highWaterMark: 8 });
+        const onClosed = vi.fn();
+        channel.closed.connect(onClosed);
+
+        send(encoder.encode("12345"));
+        await flush();
+        expect(channel.isClosed).toBe(false);
+
+        send(encoder.encode("67890"));
+        await flush();
+
+        expect(channel.isClosed).toBe(true);
+        expect(onClosed.mock.calls[0][0]).toBeInstanceOf(TransportError);
+        await expect(readAll(channel)).rejects.toBeInstanceOf(TransportError);
+        expect(server.callsTo("Close")).toHaveLength(1);
+    });
+
+    it("errors both halves when the connection is lost", async () => {
+        const channel = await client.openChannel("tcp:8080");
+        const writer = channel.writable.getWriter();
+
+        server.disconnect();
+        await flush();
+
+        await expect(readAll(channel)).rejects.toBeInstanceOf(TransportError);
+        await expect(writer.write(encoder.encode("x"))).rejects.toBeInstanceOf(TransportError);
+    });
+});
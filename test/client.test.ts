@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { Client } from "../lib/client";
+import { HostSessionInterface } from "../lib/dbus";
+import { CancelledError, InvalidOperationError, TimedOutError, TransportError } from "../lib/errors";
+import { BaseTransport } from "../lib/transport";
+import { FakeServer, flush } from "./fake-server";
+
+describe("Client", () => {
+    it("closes when disposed", async () => {
+        const server = new FakeServer()
+            .handle("QuerySystemParameters", () => [{}]);
+
+        let leaked;
+        {
+            await using client = server.createClient();
+            await client.querySystemParameters();
+            leaked = client;
+            expect(server.isConnected).toBe(true);
+        }
+
+        expect(server.isConnected).toBe(false);
+        await expect(leaked.querySystemParameters()).rejects.toBeInstanceOf(InvalidOperationError);
+    });
+
+    it("closes the connection when authentication fails", async () => {
+        const server = new FakeServer()
+            .handle("Authenticate", () => {
+                throw new Error("Incorrect token");
+            });
+        const client = server.createClient({ token: "wrong" });
+
+        await expect(client.querySystemParameters()).rejects.toThrow("Incorrect token");
+
+        expect(server.callsTo("Authenticate")[0].args).toEqual(["wrong"]);
+        expect(server.isConnected).toBe(false);
+    });
+
+    it("fails calls at once after the connection is lost", async () => {
+        const server = new FakeServer()
+            .handle(`${HostSessionInterface.name}.Attach`, () => [["s1"]])
+            .handle("CreateScript", () => [[1]])
+            .handle("LoadScript", () => new Promise(() => {}));
+        const client = server.createClient();
+        const session = await client.attach(1234);
+        const script = await session.createScript("send(1);");
+
+        const pending = script.load({ timeout: 60000 });
+        await flush();
+        server.disconnect();
+
+        await expect(pending).rejects.toBeInstanceOf(TransportError);
+        await expect(script.load({ timeout: 60000 })).rejects.toBeInstanceOf(TransportError);
+
+        await client.close();
+    });
+});
+
+describe("Client call options", () => {
+    let client: Client;
+
+    afterEach(async () => {
+        await client.close();
+    });
+
+    describe("with a server that never replies", () => {
+        let server: FakeServer;
+
+        function createClient(): Client {
+            server = new FakeServer()
+                .handle("QuerySystemParameters", () => new Promise(() => {}));
+            return server.createClient();
+        }
+
+        it("rejects with a CancelledError when aborted", async () => {
+            client = createClient();
+            const controller = new AbortController();
+
+            const call = client.querySystemParameters({ signal: controller.signal });
+            await flush();
+            controller.abort();
+
+            await expect(call).rejects.toBeInstanceOf(CancelledError);
+            expect(server.callsTo("QuerySystemParameters")).toHaveLength(1);
+        });
+
+        it("does not send a call whose signal is already aborted", async () => {
+            client = createClient();
+            await client.enumerateProcesses().catch(() => {});
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(client.querySystemParameters({ signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+            expect(server.callsTo("QuerySystemParameters")).toHaveLength(0);
+        });
+
+        it("rejects with a TimedOutError when no reply arrives in time", async () => {
+            client = createClient();
+
+            await expect(client.querySystemParameters({ timeout: 20 })).rejects.toBeInstanceOf(TimedOutError);
+        });
+    });
+
+    describe("with a device that never finishes connecting", () => {
+        class StalledTransport extends BaseTransport {
+            closed = false;
+
+            send(): void {
+            }
+
+            close(): void {
+                this.closed = true;
+            }
+        }
+
+        let transports: StalledTransport[];
+
+        function createClient(): Client {
+            transports = [];
+            return new Client("127.0.0.1:27042", {
+                reconnect: false,
+                transport: () => {
+                    const transport = new StalledTransport();
+                    transports.push(transport);
+                    return transport;
+                },
+            });
+        }
+
+        it("rejects with a CancelledError when aborted", async () => {
+            client = createClient();
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 10);
+
+            await expect(client.enumerateProcesses({}, { signal: controller.signal })).rejects.toBeInstanceOf(CancelledError);
+        });
+
+        it("rejects with a TimedOutError when the connection is not up in time", async () => {
+            client = createClient();
+
+            await expect(client.querySystemParameters({ timeout: 20 })).rejects.toThrow("Timed out connecting");
+        });
+
+        it("gives up on the connection attempt when closed", async () => {
+            client = createClient();
+            const call = client.querySystemParameters({ timeout: 0 });
+
+            await client.close();
+
+            await expect(call).rejects.toBeInstanceOf(InvalidOperationError);
+            expect(transports).toHaveLength(1);
+            expect(transports[0].closed).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+
+import { makeDBusError } from "../lib/dbus";
+import { FridaError, ProcessNotFoundError, TimedOutError } from "../lib/errors";
+
+describe("FridaError", () => {
+    it("names each error after its class", () => {
+        expect(new FridaError("oops").name).toBe("FridaError");
+        expect(new TimedOutError("too slow").name).toBe("TimedOutError");
+    });
+
+    it("carries the call context", () => {
+        const error = new TimedOutError("too slow", { method: "re.frida.HostSession17.Kill", serial: 3 });
+
+        expect(error).toBeInstanceOf(FridaError);
+        expect(error.message).toBe("too slow");
+        expect(error.method).toBe("re.frida.HostSession17.Kill");
+        expect(error.objectPath).toBeNull();
+        expect(error.serial).toBe(3);
+    });
+
+    it("maps D-Bus error names to error classes", () => {
+        const error = makeDBusError("re.frida.Error.ProcessNotFound", "Unable to find process", { serial: 1 });
+
+        expect(error).toBeInstanceOf(ProcessNotFoundError);
+        expect(error.name).toBe("ProcessNotFoundError");
+        expect(error.dbusErrorName).toBe("re.frida.Error.ProcessNotFound");
+    });
+
+    it("falls back to FridaError for unknown D-Bus errors", () => {
+        const error = makeDBusError("org.freedesktop.DBus.Error.Failed", "Failed", {});
+
+        expect(error.constructor).toBe(FridaError);
+        expect(error.name).toBe("FridaError");
+    });
+});
@@ -0,0 +1,153 @@
+import { MessageType } from "d-bus-message-protocol";
+
+import { Client, ClientOptions } from "../lib/client";
+import { lookupMethod, marshalArgs, unmarshalArgs } from "../lib/dbus";
+import { Transport, createTransportPair } from "../lib/transport";
+import { parseMessages, serializeMessage } from "../lib/wire";
+
+/*
+ * A stand-in for frida-server on the far end of an in-memory transport pair.
+ * Method calls are answered by handlers keyed by "Interface.Member" or just
+ * "Member"; a handler returns the reply's arguments, or throws to send a D-Bus
+ * error back.
+ */
+
+export interface MethodCall {
+    objectPath: string;
+    interfaceName: string;
+    memberName: string;
+    args: any[];
+    transport: Transport;
+}
+
+export type MethodHandler = (call: MethodCall) => any[] | void | Promise<any[] | void>;
+
+export class FakeServer {
+    readonly calls: MethodCall[] = [];
+
+    private handlers = new Map<string, MethodHandler>();
+    private connections = new Set<Transport>();
+    private serial = 1;
+
+    handle(member: string, handler: MethodHandler): this {
+        this.handlers.set(member, handler);
+        return this;
+    }
+
+    /**
+     * Creates a client whose connections end up at this server.
+     */
+    createClient(options: ClientOptions = {}): Client {
+        return new Client("127.0.0.1:27042", {
+            reconnect: false,
+            ...options,
+            transport: () => this.accept(),
+        });
+    }
+
+    /**
+     * Sends a signal over every open connection.
+     */
+    emit(objectPath: string, interfaceName: string, memberName: string, signature: string, args: any[]): void {
+        const body = marshalArgs(signature, args);
+        const message = {
+            messageType: MessageType.Signal,
+            serial: this.serial++,
+            objectPath,
+            interfaceName,
+            memberName,
+            ...((body.types.length > 0) ? { types: body.types, args: body.args } : {}),
+        };
+        for (const transport of this.connections) {
+            this.send(transport, message);
+        }
+    }
+
+    /**
+     * Drops the current connection, as if the server had gone away.
+     */
+    disconnect(): void {
+        for (const transport of Array.from(this.connections)) {
+            transport.close();
+        }
+    }
+
+    get isConnected(): boolean {
+        return this.connections.size > 0;
+    }
+
+    callsTo(memberName: string): MethodCall[] {
+        return this.calls.filter(call => call.memberName === memberName);
+    }
+
+    /**
+     * Answers calls arriving over `transport`, e.g. the far end of a data channel.
+     */
+    serve(transport: Transport): void {
+        this.connections.add(transport);
+        transport.once("close", () => {
+            this.connections.delete(transport);
+        });
+        transport.on("message", (data: ArrayBuffer) => {
+            for (const message of parseMessages(data)) {
+                if (message.messageType === MessageType.MethodCall) {
+                    this.dispatch(transport, message);
+                }
+            }
+        });
+    }
+
+    private accept(): Transport {
+        const [clientEnd, serverEnd] = createTransportPair();
+        this.serve(serverEnd);
+        return clientEnd;
+    }
+
+    private async dispatch(transport: Transport, message: any): Promise<void> {
+        const call: MethodCall = {
+            objectPath: message.objectPath,
+            interfaceName: message.interfaceName,
+            memberName: message.memberName,
+            args: unmarshalArgs(message.types, message.args),
+            transport,
+        };
+        this.calls.push(call);
+
+        const handler = this.handlers.get(`${call.interfaceName}.${call.memberName}`) ?? this.handlers.get(call.memberName);
+
+        try {
+            const result = (await handler?.(call)) ?? [];
+            const body = marshalArgs(lookupMethod(call.interfaceName, call.memberName).out, result);
+            this.send(transport, {
+                messageType: MessageType.MethodReturn,
+                serial: this.serial++,
+                replySerial: message.serial,
+                ...((body.types.length > 0) ? { types: body.types, args: body.args } : {}),
+            });
+        } catch (error) {
+            const body = marshalArgs("s", [(error as Error).message]);
+            this.send(transport, {
+                messageType: MessageType.Error,
+                serial: this.serial++,
+                replySerial: message.serial,
+                errorName: "org.freedesktop.DBus.Error.Failed",
+                types: body.types,
+                args: body.args,
+            });
+        }
+    }
+
+    private send(transport: Transport, message: any): void {
+        try {
+            transport.send(serializeMessage(message));
+        } catch (error) {
+        }
+    }
+}
+
+/**
+ * Lets queued microtasks and timers of zero delay run.
+ */
+export function flush(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
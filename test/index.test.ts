@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+    ApplicationQueryOptions,
+    Client,
+    ClientOptions,
+    createTransportPair,
+    PeerOptions,
+    RelayKind,
+    Scope,
+    SpawnOptions,
+    Stdio,
+    TransportLayerSecurity,
+} from "../index";
+import { HostSessionInterface } from "../lib/dbus";
+import { FakeServer } from "./fake-server";
+import { createLoopbackPeer } from "./loopback-peer";
+
+/*
+ * Everything here is imported from the package entry, as consumers would, so
+ * that options documented in the README can be written without reaching into lib/.
+ */
+
+describe("Package entry", () => {
+    let server: FakeServer;
+    let client: Client;
+
+    beforeEach(() => {
+        server = new FakeServer()
+            .handle("Spawn", () => [4321])
+            .handle("EnumerateApplications", () => [[]])
+            .handle(`${HostSessionInterface.name}.Attach`, () => [["s1"]])
+            .handle("QuerySystemParameters", () => [{}])
+            .handle("OfferPeerConnection", () => ["v=0\r\n"]);
+        client = server.createClient();
+    });
+
+    afterEach(async () => {
+        await client.close();
+    });
+
+    it("exports what spawn() options need", async () => {
+        const options: SpawnOptions = { argv: ["/bin/ls", "-l"], stdio: Stdio.Pipe };
+
+        expect(await client.spawn("/bin/ls", options)).toBe(4321);
+
+        const [program, rawOptions] = server.callsTo("Spawn")[0].args;
+        expect(program).toBe("/bin/ls");
+        expect(rawOptions[7]).toBe(1);
+    });
+
+    it("exports what enumerateApplications() options need", async () => {
+        const options: ApplicationQueryOptions = { scope: Scope.Full };
+
+        expect(await client.enumerateApplications(options)).toEqual([]);
+
+        const [rawOptions] = server.callsTo("EnumerateApplications")[0].args;
+        expect(rawOptions.scope).toEqual({ signature: "s", value: "full" });
+    });
+
+    it("exports what the Client constructor options need", async () => {
+        const urls: string[] = [];
+        const options: ClientOptions = {
+            tls: TransportLayerSecurity.Enabled,
+            transport: url => {
+                urls.push(url);
+                const [clientEnd, serverEnd] = createTransportPair();
+                server.serve(serverEnd);
+                return clientEnd;
+            },
+        };
+        const secureClient = new Client("example.com:27042", options);
+
+        await secureClient.querySystemParameters();
+        await secureClient.close();
+
+        expect(urls).toEqual(["wss://example.com:27042/ws"]);
+    });
+
+    it("exports what setupPeerConnection() options need", async () => {
+        const peer = createLoopbackPeer({ open: false });
+        const session = await client.attach(1234);
+        const options: PeerOptions = {
+            relays: [{ kind: RelayKind.TurnTls, address: "turn.example.com:443", username: "user", password: "secret" }],
+            RTCPeerConnection: peer.RTCPeerConnection,
+            timeout: 20,
+        };
+
+        expect(await session.setupPeerConnection(options)).toBe(false);
+
+        const [, rawOptions] = server.callsTo("OfferPeerConnection")[0].args;
+        expect(rawOptions.relays.value).toEqual([["turn.example.com:443", "user", "secret", 2]]);
+        expect(peer.connections[0].configuration.iceServers).toEqual([
+            { urls: "turns:turn.example.com:443?transport=tcp", username: "user", credential: "secret" },
+        ]);
+    });
+});
@@ -0,0 +1,131 @@
+import { DataChannelLike } from "../lib/peer";
+import { RTCPeerConnectionConstructor } from "../lib/session";
+
+/*
+ * Just enough of RTCPeerConnection to exercise Session.setupPeerConnection()
+ * in Node: the data channel is looped back to an in-process far end instead of
+ * going over the network.
+ */
+
+type Listener = (event: any) => void;
+
+class EventTargetLike {
+    private listeners = new Map<string, Listener[]>();
+
+    addEventListener(type: string, listener: Listener): void {
+        if (!this.listeners.has(type)) {
+            this.listeners.set(type, []);
+        }
+        this.listeners.get(type)!.push(listener);
+    }
+
+    protected dispatch(type: string, event: any = {}): void {
+        for (const listener of (this.listeners.get(type) ?? []).slice()) {
+            listener(event);
+        }
+    }
+}
+
+export class LoopbackDataChannel extends EventTargetLike implements DataChannelLike {
+    binaryType = "blob";
+    readyState: RTCDataChannelState = "connecting";
+    peer!: LoopbackDataChannel;
+
+    send(data: ArrayBuffer): void {
+        if (this.readyState !== "open") {
+            throw new Error("Data channel is not open");
+        }
+        const copy = data.slice(0);
+        queueMicrotask(() => this.peer.receive(copy));
+    }
+
+    close(): void {
+        if (this.readyState === "closed") {
+            return;
+        }
+        this.readyState = "closed";
+        this.dispatch("close");
+        this.peer.close();
+    }
+
+    open(): void {
+        if (this.readyState === "connecting") {
+            this.readyState = "open";
+            this.dispatch("open");
+        }
+    }
+
+    private receive(data: ArrayBuffer): void {
+        if (this.readyState === "open") {
+            this.dispatch("message", { data });
+        }
+    }
+}
+
+export class LoopbackPeerConnection extends EventTargetLike {
+    readonly localChannel = new LoopbackDataChannel();
+    readonly remoteChannel = new LoopbackDataChannel();
+    remoteDescription: RTCSessionDescriptionInit | null = null;
+    isClosed = false;
+
+    constructor(readonly configuration: RTCConfiguration, private opensChannel: boolean) {
+        super();
+        this.localChannel.peer = this.remoteChannel;
+        this.remoteChannel.peer = this.localChannel;
+    }
+
+    createDataChannel(label: string): LoopbackDataChannel {
+        return this.localChannel;
+    }
+
+    async createOffer(): Promise<RTCSessionDescriptionInit> {
+        return { type: "offer", sdp: "v=0\r\no=- 1 1 IN IP4 127.0.0.1\r\n" };
+    }
+
+    async setLocalDescription(description: RTCSessionDescriptionInit): Promise<void> {
+        setTimeout(() => {
+            this.dispatch("icecandidate", { candidate: { candidate: "candidate:1 1 udp 2122260223 127.0.0.1 50000 typ host" } });
+            this.dispatch("icecandidate", { candidate: null });
+        }, 0);
+    }
+
+    async setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
+        this.remoteDescription = description;
+        if (this.opensChannel) {
+            setTimeout(() => {
+                this.remoteChannel.open();
+                this.localChannel.open();
+            }, 0);
+        }
+    }
+
+    close(): void {
+        this.isClosed = true;
+        this.localChannel.close();
+    }
+}
+
+export interface LoopbackPeer {
+    RTCPeerConnection: RTCPeerConnectionConstructor;
+    connections: LoopbackPeerConnection[];
+}
+
+/**
+ * Returns an RTCPeerConnection implementation along with the connections made
+ * through it. With `open: false` the data channel never opens.
+ */
+export function createLoopbackPeer({ open = true }: { open?: boolean } = {}): LoopbackPeer {
+    const connections: LoopbackPeerConnection[] = [];
+
+    class PeerConnection extends LoopbackPeerConnection {
+        constructor(configuration: RTCConfiguration = {}) {
+            super(configuration, open);
+            connections.push(this);
+        }
+    }
+
+    return {
+        RTCPeerConnection: PeerConnection as unknown as RTCPeerConnectionConstructor,
+        connections,
+    };
+}
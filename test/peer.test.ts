@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Client } from "../lib/client";
+import { AgentSessionInterface, HostSessionInterface } from "../lib/dbus";
+import { CancelledError, TimedOutError } from "../lib/errors";
+import { DataChannelTransport, waitForDataChannel } from "../lib/peer";
+import { Session, SessionDetachReason } from "../lib/session";
+import { FakeServer, MethodCall } from "./fake-server";
+import { createLoopbackPeer, LoopbackDataChannel } from "./loopback-peer";
+
+describe("Session.setupPeerConnection()", () => {
+    let server: FakeServer;
+    let client: Client;
+    let session: Session;
+    let peerTransport: DataChannelTransport | null;
+
+    beforeEach(async () => {
+        peerTransport = null;
+        server = new FakeServer()
+            .handle(`${HostSessionInterface.name}.Attach`, () => [["s1"]])
+            .handle("CreateScript", () => [[1]])
+            .handle("OfferPeerConnection", () => {
+                return ["v=0\r\no=- 2 2 IN IP4 127.0.0.1\r\n"];
+            });
+        client = server.createClient();
+        session = await client.attach(1234);
+    });
+
+    afterEach(async () => {
+        await client.close();
+    });
+
+    function serveLoopback(peer: ReturnType<typeof createLoopbackPeer>): void {
+        server.handle("OfferPeerConnection", () => {
+            const [pc] = peer.connections;
+            peerTransport = new DataChannelTransport(pc.remoteChannel);
+            server.serve(peerTransport);
+            return ["v=0\r\no=- 2 2 IN IP4 127.0.0.1\r\n"];
+        });
+    }
+
+    function isOverPeer(call: MethodCall): boolean {
+        return peerTransport !== null && call.transport === peerTransport;
+    }
+
+    it("migrates the session onto the data channel", async () => {
+        const peer = createLoopbackPeer();
+        serveLoopback(peer);
+
+        const migrated = await session.setupPeerConnection({ RTCPeerConnection: peer.RTCPeerConnection });
+
+        expect(migrated).toBe(true);
+        expect(isOverPeer(server.callsTo("BeginMigration")[0])).toBe(false);
+        expect(isOverPeer(server.callsTo("CommitMigration")[0])).toBe(true);
+
+        await session.enableChildGating();
+        expect(isOverPeer(server.callsTo("EnableChildGating")[0])).toBe(true);
+    });
+
+    it("trickles local candidates to the agent", async () => {
+        const peer = createLoopbackPeer();
+        serveLoopback(peer);
+
+        await session.setupPeerConnection({ RTCPeerConnection: peer.RTCPeerConnection });
+
+        const candidates = server.callsTo("AddCandidates").flatMap(call => call.args[0]);
+        expect(candidates).toEqual(["a=candidate:1 1 udp 2122260223 127.0.0.1 50000 typ host"]);
+        expect(server.callsTo("NotifyCandidateGatheringDone").length).toBeGreaterThan(0);
+    });
+
+    it("passes STUN servers and relays to the agent and the peer connection", async () => {
+        const peer = createLoopbackPeer();
+        serveLoopback(peer);
+
+        await session.setupPeerConnection({
+            RTCPeerConnection: peer.RTCPeerConnection,
+            stun: ["stun:stun.example.com:3478"],
+        });
+
+        const [, options] = server.callsTo("OfferPeerConnection")[0].args;
+        expect(options["stun-server"]).toEqual({ signature: "s", value: "stun.example.com:3478" });
+        expect(peer.connections[0].configuration.iceServers).toEqual([{ urls: "stun:stun.example.com:3478" }]);
+    });
+
+    it("delivers script messages arriving over the data channel", async () => {
+        const peer = createLoopbackPeer();
+        serveLoopback(peer);
+        const script = await session.createScript("send(1);");
+        const onMessage = vi.fn();
+        script.message.connect(onMessage);
+
+        await session.setupPeerConnection({ RTCPeerConnection: peer.RTCPeerConnection });
+        server.emit(`/re/frida/AgentSession/s1`, AgentSessionInterface.name, "Message", "a(i(u)sbay)u", [
+            [[1, [1], JSON.stringify({ type: "send", payload: 1 }), false, new Uint8Array(0)]],
+            1,
+        ]);
+        await vi.waitFor(() => expect(onMessage).toHaveBeenCalled());
+
+        expect(onMessage).toHaveBeenCalledTimes(1);
+        expect(onMessage.mock.calls[0][0]).toEqual({ type: "send", payload: 1 });
+    });
+
+    it("detaches the session when the data channel closes later on", async () => {
+        const peer = createLoopbackPeer();
+        serveLoopback(peer);
+        const onDetached = vi.fn();
+        session.detached.connect(onDetached);
+
+        await session.setupPeerConnection({ RTCPeerConnection: peer.RTCPeerConnection });
+        peer.connections[0].remoteChannel.close();
+
+        expect(onDetached).toHaveBeenCalledWith("connection-terminated", null);
+    });
+
+    it("stops listening on the data channel once it closes", async () => {
+        const peer = createLoopbackPeer();
+        serveLoopback(peer);
+        const createPeerSession = vi.spyOn(client, "_createPeerSession");
+
+        await session.setupPeerConnection({ RTCPeerConnection: peer.RTCPeerConnection });
+        const peerBus = (createPeerSession.mock.results[0].value as any).bus;
+        const removeSignalListener = vi.spyOn(peerBus, "removeSignalListener");
+        peer.connections[0].remoteChannel.close();
+
+        expect(removeSignalListener).toHaveBeenCalledWith("/re/frida/AgentSession/s1", AgentSessionInterface.name, "Message", expect.any(Function));
+    });
+
+    it("stops listening on the data channel when the session detaches", async () => {
+        const peer = createLoopbackPeer();
+        serveLoopback(peer);
+        const createPeerSession = vi.spyOn(client, "_createPeerSession");
+
+        await session.setupPeerConnection({ RTCPeerConnection: peer.RTCPeerConnection });
+        const peerBus = (createPeerSession.mock.results[0].value as any).bus;
+        const removeSignalListener = vi.spyOn(peerBus, "removeSignalListener");
+        session._onDetached(SessionDetachReason.ProcessTerminated, null);
+
+        expect(removeSignalListener).toHaveBeenCalledTimes(1);
+    });
+
+    it.each(["BeginMigration", "CommitMigration"])("stays on the WebSocket when %s fails", async member => {
+        const peer = createLoopbackPeer();
+        serveLoopback(peer);
+        server.handle(member, () => {
+            throw new Error("Migration is not possible");
+        });
+
+        const migrated = await session.setupPeerConnection({ RTCPeerConnection: peer.RTCPeerConnection });
+
+        expect(migrated).toBe(false);
+        const [pc] = peer.connections;
+        expect(pc.isClosed).toBe(true);
+        expect(pc.localChannel.readyState).toBe("closed");
+        expect(pc.remoteChannel.readyState).toBe("closed");
+
+        await session.enableChildGating();
+        const [call] = server.callsTo("EnableChildGating");
+        expect(isOverPeer(call)).toBe(false);
+        expect(session.isDetached).toBe(false);
+    });
+
+    it("stays on the WebSocket when the data channel does not open in time", async () => {
+        const peer = createLoopbackPeer({ open: false });
+
+        const migrated = await session.setupPeerConnection({ RTCPeerConnection: peer.RTCPeerConnection, timeout: 20 });
+
+        expect(migrated).toBe(false);
+        expect(peer.connections[0].isClosed).toBe(true);
+        expect(server.callsTo("BeginMigration")).toHaveLength(0);
+    });
+
+    it("rejects with a CancelledError when aborted", async () => {
+        const peer = createLoopbackPeer({ open: false });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 10);
+
+        const setup = session.setupPeerConnection({ RTCPeerConnection: peer.RTCPeerConnection }, { signal: controller.signal });
+
+        await expect(setup).rejects.toBeInstanceOf(CancelledError);
+        expect(peer.connections[0].isClosed).toBe(true);
+    });
+});
+
+describe("waitForDataChannel()", () => {
+    it("rejects with a TimedOutError when the channel does not open in time", async () => {
+        await expect(waitForDataChannel(new LoopbackDataChannel(), 10)).rejects.toBeInstanceOf(TimedOutError);
+    });
+
+    it("rejects with a CancelledError when aborted", async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(waitForDataChannel(new LoopbackDataChannel(), 1000, controller.signal)).rejects.toBeInstanceOf(CancelledError);
+    });
+});
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Client } from "../lib/client";
+import { AgentSessionInterface, HostSessionInterface } from "../lib/dbus";
+import { MessageOverflowPolicy, Script, ScriptMessageEvent } from "../lib/script";
+import { Session } from "../lib/session";
+import { FakeServer, flush } from "./fake-server";
+
+describe("Script", () => {
+    let server: FakeServer;
+    let client: Client;
+    let session: Session;
+    let script: Script;
+    let rpcReplies: { [operation: string]: (params: any[]) => any };
+    let nextBatchId: number;
+
+    beforeEach(async () => {
+        rpcReplies = {};
+        nextBatchId = 1;
+        server = new FakeServer()
+            .handle(`${HostSessionInterface.name}.Attach`, () => [["s1"]])
+            .handle("CreateScript", () => [[1]])
+            .handle("PostMessages", ({ args: [messages] }) => {
+                for (const [, , text] of messages) {
+                    const [tag, id, operation, ...params] = JSON.parse(text);
+                    const reply = rpcReplies[operation];
+                    if (tag === "frida:rpc" && reply !== undefined) {
+                        setTimeout(() => replyToRpc(id, reply(params)), 0);
+                    }
+                }
+            });
+        client = server.createClient();
+        session = await client.attach(1234);
+        script = await session.createScript("rpc.exports = { add(a, b) { return a + b; } };");
+    });
+
+    afterEach(async () => {
+        await client.close();
+    });
+
+    function sendFromAgent(payload: any): void {
+        const message = { type: "send", payload };
+        server.emit("/re/frida/AgentSession/s1", AgentSessionInterface.name, "Message", "a(i(u)sbay)u", [
+            [[1, [1], JSON.stringify(message), false, new Uint8Array(0)]],
+            nextBatchId++,
+        ]);
+    }
+
+    function replyToRpc(id: number, result: any): void {
+        sendFromAgent(["frida:rpc", id, "ok", result]);
+    }
+
+    describe("exports", () => {
+        it("loads without waiting for the export names", async () => {
+            await script.load();
+
+            expect(server.callsTo("LoadScript")).toHaveLength(1);
+            expect(Object.keys(script.exports)).toEqual([]);
+        });
+
+        it("reflects the export names once loaded", async () => {
+            rpcReplies.list = () => ["add", "sub"];
+
+            await script.load();
+
+            await vi.waitFor(() => expect(Object.keys(script.exports)).toEqual(["add", "sub"]));
+            expect("add" in script.exports).toBe(true);
+            expect("mul" in script.exports).toBe(false);
+            expect(script.exports.mul).toBeUndefined();
+        });
+
+        it("reflects the names returned by listExports()", async () => {
+            rpcReplies.list = () => ["add", "sub"];
+            await script.load();
+
+            expect(await script.listExports()).toEqual(["add", "sub"]);
+
+            expect(Object.keys(script.exports)).toEqual(["add", "sub"]);
+        });
+
+        it("does not send probed properties to the agent", async () => {
+            expect(JSON.stringify({ e: script.exports })).toBe('{"e":{}}');
+            expect(script.exports.constructor).toBe(Object);
+            expect((script.exports as any).asymmetricMatch).toBeUndefined();
+            expect((script.exports as any).$$typeof).toBeUndefined();
+            await flush();
+
+            expect(server.callsTo("PostMessages")).toHaveLength(0);
+        });
+
+        it("treats an export named like an Object method as an export once known", async () => {
+            rpcReplies.list = () => ["toString"];
+            rpcReplies.call = ([name]) => `called ${name}`;
+            await script.load();
+            await script.listExports();
+
+            expect(await script.exports.toString()).toBe("called toString");
+        });
+
+        it("calls exports through RPC", async () => {
+            rpcReplies.call = ([name, args]) => (name === "add") ? args[0] + args[1] : null;
+            await script.load();
+
+            expect(await script.exports.add(1, 2)).toBe(3);
+        });
+
+        it("gives up on listExports() after the timeout", async () => {
+            await script.load();
+
+            await expect(script.listExports({ timeout: 10 })).rejects.toThrow("Timed out");
+        });
+    });
+
+    describe("message streams", () => {
+        async function collect(iterator: AsyncIterable<ScriptMessageEvent>): Promise<any[]> {
+            const payloads: any[] = [];
+            for await (const { message } of iterator) {
+                payloads.push((message as any).payload);
+            }
+            return payloads;
+        }
+
+        async function sendAndDestroy(count: number): Promise<void> {
+            for (let i = 1; i <= count; i++) {
+                sendFromAgent(i);
+            }
+            await flush();
+            script._destroy();
+        }
+
+        it("keeps the newest messages when the buffer overflows", async () => {
+            const messages = script.messages({ bufferSize: 3 });
+
+            await sendAndDestroy(5);
+
+            expect(await collect(messages)).toEqual([3, 4, 5]);
+        });
+
+        it("keeps the oldest messages with the drop-newest policy", async () => {
+            const messages = script.messages({ bufferSize: 3, overflow: MessageOverflowPolicy.DropNewest });
+
+            await sendAndDestroy(5);
+
+            expect(await collect(messages)).toEqual([1, 2, 3]);
+        });
+
+        it("stops pulling into a readable stream at its high-water mark", async () => {
+            const readable = script.readable({ bufferSize: 2 }, new CountQueuingStrategy({ highWaterMark: 1 }));
+
+            await sendAndDestroy(5);
+
+            expect(await collect(readable as unknown as AsyncIterable<ScriptMessageEvent>)).toEqual([1, 4, 5]);
+        });
+    });
+});
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Client } from "../lib/client";
+import { ServiceInterface } from "../lib/dbus";
+import { Variant } from "../lib/protocol";
+import { FakeServer, flush } from "./fake-server";
+
+describe("Client.openService()", () => {
+    let server: FakeServer;
+    let client: Client;
+
+    beforeEach(() => {
+        server = new FakeServer()
+            .handle("OpenService", () => [[7]]);
+        client = server.createClient();
+    });
+
+    afterEach(async () => {
+        await client.close();
+    });
+
+    it("opens the service at the given address", async () => {
+        const service = await client.openService("xpc:com.example.service");
+
+        expect(service.id).toBe(7);
+        expect(service.address).toBe("xpc:com.example.service");
+        expect(service.isClosed).toBe(false);
+        expect(server.callsTo("OpenService")[0].args).toEqual(["xpc:com.example.service"]);
+    });
+
+    it("activates the service", async () => {
+        const service = await client.openService("xpc:com.example.service");
+
+        await service.activate();
+
+        const [call] = server.callsTo("Activate");
+        expect(call.objectPath).toBe("/re/frida/Service/7");
+        expect(call.interfaceName).toBe(ServiceInterface.name);
+    });
+
+    it("converts requests and responses to and from variants", async () => {
+        server.handle("Request", () => [
+            new Variant("a{sv}", {
+                ok: new Variant("b", true),
+                items: new Variant("av", [new Variant("s", "a"), new Variant("x", 3n)]),
+            }),
+        ]);
+        const service = await client.openService("xpc:com.example.service");
+
+        const response = await service.request({ action: "list", limit: 2, tags: ["x", "y"] });
+
+        expect(response).toEqual({ ok: true, items: ["a", 3n] });
+        const [parameters] = server.callsTo("Request")[0].args;
+        expect(parameters.signature).toBe("a{sv}");
+        expect(parameters.value.action).toEqual({ signature: "s", value: "list" });
+        expect(parameters.value.tags).toEqual({ signature: "as", value: ["x", "y"] });
+    });
+
+    it("rejects requests that fail on the device", async () => {
+        server.handle("Request", () => {
+            throw new Error("Service is not activated");
+        });
+        const service = await client.openService("xpc:com.example.service");
+
+        await expect(service.request({})).rejects.toThrow("Service is not activated");
+    });
+
+    it("delivers messages emitted by the service", async () => {
+        const service = await client.openService("xpc:com.example.service");
+        const onMessage = vi.fn();
+        service.message.connect(onMessage);
+
+        server.emit("/re/frida/Service/7", ServiceInterface.name, "Message", "v", [new Variant("s", "hello")]);
+        server.emit("/re/frida/Service/8", ServiceInterface.name, "Message", "v", [new Variant("s", "not for us")]);
+        await flush();
+
+        expect(onMessage).toHaveBeenCalledTimes(1);
+        expect(onMessage).toHaveBeenCalledWith("hello");
+    });
+
+    it("closes and stops delivering messages when cancelled", async () => {
+        const service = await client.openService("xpc:com.example.service");
+        const onClose = vi.fn();
+        const onMessage = vi.fn();
+        service.close.connect(onClose);
+        service.message.connect(onMessage);
+
+        await service.cancel();
+        server.emit("/re/frida/Service/7", ServiceInterface.name, "Message", "v", [new Variant("s", "late")]);
+        await flush();
+
+        expect(server.callsTo("Cancel")).toHaveLength(1);
+        expect(onClose).toHaveBeenCalledTimes(1);
+        expect(onMessage).not.toHaveBeenCalled();
+        expect(service.isClosed).toBe(true);
+        await expect(service.activate()).rejects.toThrow("is closed");
+    });
+
+    it("closes when the device closes it", async () => {
+        const service = await client.openService("xpc:com.example.service");
+        const onClose = vi.fn();
+        service.close.connect(onClose);
+
+        server.emit("/re/frida/Service/7", ServiceInterface.name, "Close", "", []);
+        await flush();
+
+        expect(onClose).toHaveBeenCalledTimes(1);
+        expect(service.isClosed).toBe(true);
+        await expect(service.request({})).rejects.toThrow("is closed");
+        expect(server.callsTo("Cancel")).toHaveLength(0);
+    });
+
+    it("closes when the connection is lost", async () => {
+        const service = await client.openService("xpc:com.example.service");
+        const onClose = vi.fn();
+        service.close.connect(onClose);
+
+        server.disconnect();
+        await flush();
+
+        expect(onClose).toHaveBeenCalledTimes(1);
+        expect(service.isClosed).toBe(true);
+        await expect(service.request({})).rejects.toThrow("is closed");
+    });
+
+    it("cancels open services when the client is closed", async () => {
+        const service = await client.openService("xpc:com.example.service");
+
+        await client.close();
+
+        expect(server.callsTo("Cancel")).toHaveLength(1);
+        expect(service.isClosed).toBe(true);
+    });
+});
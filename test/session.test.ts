@@ -0,0 +1,249 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Client } from "../lib/client";
+import { AgentSessionInterface, HostSessionInterface } from "../lib/dbus";
+import { LoggerLevel } from "../lib/logger";
+import { Script } from "../lib/script";
+import { Session, SessionDetachReason } from "../lib/session";
+import { FakeServer, flush } from "./fake-server";
+
+describe("Session message delivery", () => {
+    let server: FakeServer;
+    let client: Client;
+    let session: Session;
+    let script: Script;
+    let failures: number;
+
+    beforeEach(async () => {
+        failures = 0;
+        server = new FakeServer()
+            .handle(`${HostSessionInterface.name}.Attach`, () => [["s1"]])
+            .handle("CreateScript", () => [[1]])
+            .handle("PostMessages", () => {
+                if (failures > 0) {
+                    failures--;
+                    throw new Error("Agent is busy");
+                }
+            });
+        client = server.createClient();
+        session = await client.attach(1234);
+        script = await session.createScript("recv(() => {});");
+        vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await client.close();
+    });
+
+    function postedBatches(): [texts: string[], batchId: number][] {
+        return server.callsTo("PostMessages").map(({ args: [messages, batchId] }) => [
+            messages.map(([, , text]: [number, [number], string]) => JSON.parse(text)),
+            batchId,
+        ]);
+    }
+
+    it("resolves post() once the agent has the message", async () => {
+        await script.post("hello");
+
+        expect(postedBatches()).toEqual([[["hello"], 1]]);
+        expect(session.sendQueueDepth).toBe(0);
+    });
+
+    it("retries a failed batch on a session without persistence", async () => {
+        failures = 1;
+        const onDeliveryFailed = vi.fn();
+        session.deliveryFailed.connect(onDeliveryFailed);
+
+        const posted = script.post("hello");
+        await vi.advanceTimersByTimeAsync(0);
+        expect(session.sendQueueDepth).toBe(1);
+        expect(onDeliveryFailed).toHaveBeenCalledWith(expect.any(Error), 1, true);
+
+        await vi.advanceTimersByTimeAsync(500);
+        await posted;
+
+        expect(postedBatches()).toEqual([[["hello"], 1], [["hello"], 1]]);
+        expect(session.sendQueueDepth).toBe(0);
+    });
+
+    it("resends a failed batch on its own before newer messages", async () => {
+        failures = 1;
+
+        const first = script.post("first");
+        await vi.advanceTimersByTimeAsync(0);
+        const second = script.post("second");
+        expect(session.sendQueueDepth).toBe(2);
+
+        await vi.advanceTimersByTimeAsync(500);
+        await Promise.all([first, second]);
+
+        expect(postedBatches()).toEqual([
+            [["first"], 1],
+            [["first"], 1],
+            [["second"], 2],
+        ]);
+    });
+
+    it("gives up after repeated failures", async () => {
+        failures = Infinity;
+        const onDeliveryFailed = vi.fn();
+        session.deliveryFailed.connect(onDeliveryFailed);
+
+        const posted = script.post("hello");
+        const outcome = expect(posted).rejects.toThrow("Agent is busy");
+        await vi.advanceTimersByTimeAsync(500 + 1000 + 2000 + 4000);
+        await outcome;
+
+        expect(postedBatches()).toHaveLength(5);
+        expect(onDeliveryFailed.mock.calls.map(([, , willRetry]) => willRetry)).toEqual([true, true, true, true, false]);
+        expect(session.sendQueueDepth).toBe(0);
+    });
+
+    it("rejects undelivered messages when the session is detached", async () => {
+        failures = 1;
+
+        const posted = script.post("hello");
+        const outcome = expect(posted).rejects.toThrow("Session is detached");
+        await vi.advanceTimersByTimeAsync(0);
+        await session.detach();
+        await outcome;
+
+        expect(postedBatches()).toHaveLength(1);
+    });
+
+    it("delivers inbound batches replayed by the agent only once", async () => {
+        vi.useRealTimers();
+        const onMessage = vi.fn();
+        script.message.connect(onMessage);
+
+        const batch = [[1, [1], JSON.stringify({ type: "send", payload: "hi" }), false, new Uint8Array(0)]];
+        server.emit("/re/frida/AgentSession/s1", AgentSessionInterface.name, "Message", "a(i(u)sbay)u", [batch, 1]);
+        server.emit("/re/frida/AgentSession/s1", AgentSessionInterface.name, "Message", "a(i(u)sbay)u", [batch, 1]);
+        await flush();
+
+        expect(onMessage).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("Session reconnection", () => {
+    let server: FakeServer;
+    let client: Client;
+    let session: Session;
+    let script: Script;
+    let lastTxBatchId: number;
+
+    beforeEach(async () => {
+        lastTxBatchId = 0;
+        server = new FakeServer()
+            .handle(`${HostSessionInterface.name}.Attach`, () => [["s1"]])
+            .handle("CreateScript", () => [[1]])
+            .handle(`${AgentSessionInterface.name}.Resume`, () => [lastTxBatchId]);
+        client = server.createClient({ reconnect: { initialDelay: 5, maxAttempts: 3 } });
+        session = await client.attach(1234, { persistTimeout: 30 });
+        script = await session.createScript("recv(() => {});");
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await client.close();
+    });
+
+    function sendFromAgent(payload: any, batchId: number): void {
+        const batch = [[1, [1], JSON.stringify({ type: "send", payload }), false, new Uint8Array(0)]];
+        server.emit("/re/frida/AgentSession/s1", AgentSessionInterface.name, "Message", "a(i(u)sbay)u", [batch, batchId]);
+    }
+
+    function dropConnectionOnFirstPost(): void {
+        let dropped = false;
+        server.handle("PostMessages", () => {
+            if (!dropped) {
+                dropped = true;
+                server.disconnect();
+                return new Promise(() => {});
+            }
+        });
+    }
+
+    it("reattaches and resumes from the last batch received", async () => {
+        const onMessage = vi.fn();
+        script.message.connect(onMessage);
+        sendFromAgent("before", 3);
+        await flush();
+
+        server.disconnect();
+        expect(session.isInterrupted).toBe(true);
+        await vi.waitFor(() => expect(session.isInterrupted).toBe(false));
+
+        const [reattach] = server.callsTo("Reattach");
+        expect(reattach.args).toEqual([["s1"]]);
+        const [resume] = server.callsTo("Resume");
+        expect(resume.objectPath).toBe("/re/frida/AgentSession/s1");
+        expect(resume.args).toEqual([3]);
+        expect(session.isDetached).toBe(false);
+
+        sendFromAgent("after", 4);
+        await flush();
+        expect(onMessage.mock.calls.map(([message]) => message.payload)).toEqual(["before", "after"]);
+    });
+
+    it("resends messages the agent did not get before the connection dropped", async () => {
+        dropConnectionOnFirstPost();
+
+        await script.post("hello");
+
+        const batches = server.callsTo("PostMessages").map(call => call.args[1]);
+        expect(batches).toEqual([1, 1]);
+        expect(server.callsTo("PostMessages")[1].transport).not.toBe(server.callsTo("PostMessages")[0].transport);
+    });
+
+    it("does not resend messages the agent acknowledges on resume", async () => {
+        dropConnectionOnFirstPost();
+        lastTxBatchId = 1;
+
+        await script.post("hello");
+
+        expect(server.callsTo("Resume")).toHaveLength(1);
+        expect(server.callsTo("PostMessages")).toHaveLength(1);
+    });
+
+    it("detaches with connection-terminated once the persist timeout expires", async () => {
+        vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+        const detachedSession = await client.attach(1234, { persistTimeout: 1 });
+        const onDetached = vi.fn();
+        detachedSession.detached.connect(onDetached);
+        server.handle("Reattach", () => new Promise(() => {}));
+
+        server.disconnect();
+        await vi.advanceTimersByTimeAsync(999);
+        expect(onDetached).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1);
+
+        expect(onDetached).toHaveBeenCalledWith(SessionDetachReason.ConnectionTerminated, null);
+        expect(detachedSession.isDetached).toBe(true);
+    });
+
+    it("keeps reconnecting working after a detached handler throws", async () => {
+        await client.close();
+        const sink = vi.fn();
+        client = server.createClient({ reconnect: { initialDelay: 5, maxAttempts: 3 }, logger: { level: LoggerLevel.Error, sink } });
+        session = await client.attach(1234, { persistTimeout: 30 });
+        session.detached.connect(() => {
+            throw new Error("Handler failed");
+        });
+        server.handle("Reattach", () => {
+            throw new Error("Session is gone");
+        });
+
+        server.disconnect();
+        await vi.waitFor(() => expect(session.isDetached).toBe(true));
+        await vi.waitFor(() => expect(sink).toHaveBeenCalled());
+        expect(sink.mock.calls[0][3].message).toBe("Handler failed");
+
+        server.handle("Reattach", () => {});
+        const survivor = await client.attach(1234, { persistTimeout: 30 });
+        server.disconnect();
+        await vi.waitFor(() => expect(server.callsTo("Resume")).toHaveLength(1));
+        expect(survivor.isInterrupted).toBe(false);
+    });
+});
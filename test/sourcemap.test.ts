@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Client } from "../lib/client";
+import { HostSessionInterface } from "../lib/dbus";
+import { LogCategory, LoggerLevel } from "../lib/logger";
+import { Session } from "../lib/session";
+import { RawSourceMap, SourceMap } from "../lib/sourcemap";
+import { FakeServer } from "./fake-server";
+
+function inlineSourceMap(json: string): string {
+    return `//# sourceMappingURL=data:application/json;base64,${btoa(json)}\n`;
+}
+
+describe("SourceMap", () => {
+    const raw: RawSourceMap = {
+        version: 3,
+        sources: ["agent.ts"],
+        names: ["add"],
+        mappings: "AAAA,IAAIA;AACA,gBAAgB;;KAEK,LAAD",
+    };
+
+    it("decodes segments relative to the previous ones", () => {
+        const map = new SourceMap(raw);
+
+        expect(map.originalPositionFor(1, 1)).toEqual({ source: "agent.ts", line: 1, column: 1, name: null });
+        expect(map.originalPositionFor(1, 5)).toEqual({ source: "agent.ts", line: 1, column: 5, name: "add" });
+        expect(map.originalPositionFor(2, 1)).toEqual({ source: "agent.ts", line: 2, column: 5, name: null });
+        expect(map.originalPositionFor(2, 17)).toEqual({ source: "agent.ts", line: 2, column: 21, name: null });
+    });
+
+    it("uses the closest segment to the left of a column", () => {
+        const map = new SourceMap(raw);
+
+        expect(map.originalPositionFor(2, 10)).toEqual({ source: "agent.ts", line: 2, column: 5, name: null });
+        expect(map.originalPositionFor(2, null)).toEqual({ source: "agent.ts", line: 2, column: 5, name: null });
+    });
+
+    it("decodes negative deltas and segments listed out of order", () => {
+        const map = new SourceMap(raw);
+
+        expect(map.originalPositionFor(4, 1)).toEqual({ source: "agent.ts", line: 4, column: 25, name: null });
+        expect(map.originalPositionFor(4, 6)).toEqual({ source: "agent.ts", line: 4, column: 26, name: null });
+    });
+
+    it("returns null for unmapped lines", () => {
+        const map = new SourceMap(raw);
+
+        expect(map.originalPositionFor(3, 1)).toBeNull();
+        expect(map.originalPositionFor(9, 1)).toBeNull();
+    });
+
+    it("prefixes sources with the source root", () => {
+        const map = new SourceMap({ ...raw, sourceRoot: "src" });
+
+        expect(map.originalPositionFor(1, 1)?.source).toBe("src/agent.ts");
+    });
+
+    it("rejects invalid maps", () => {
+        expect(() => SourceMap.parse("{}")).toThrow("Unsupported source map version: undefined");
+        expect(() => new SourceMap({ ...raw, mappings: "A!" })).toThrow("Invalid character");
+    });
+
+    it("reads an inline source map from script source", () => {
+        const map = SourceMap.fromSource(`send(1);\n${inlineSourceMap(JSON.stringify(raw))}`);
+
+        expect(map?.originalPositionFor(1, 5)?.name).toBe("add");
+        expect(SourceMap.fromSource("send(1);\n")).toBeNull();
+    });
+
+    it("rewrites agent locations and leaves runtime frames alone", () => {
+        const map = new SourceMap(raw);
+
+        const stack = "Error: oops\n    at add (/script1.js:2:17)\n    at /_frida.js:10:3";
+
+        expect(map.rewriteLocations(stack)).toBe("Error: oops\n    at add (agent.ts:2:21)\n    at /_frida.js:10:3");
+    });
+});
+
+describe("Session.createScript() with a source map", () => {
+    let server: FakeServer;
+    let client: Client;
+    let session: Session;
+    let sink: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+        server = new FakeServer()
+            .handle(`${HostSessionInterface.name}.Attach`, () => [["s1"]])
+            .handle("CreateScript", () => [[1]]);
+        sink = vi.fn();
+        client = server.createClient({ logger: { level: LoggerLevel.Warning, sink } });
+        session = await client.attach(1234);
+    });
+
+    afterEach(async () => {
+        await client.close();
+    });
+
+    it.each([
+        ["an unsupported inline map", `send(1);\n${inlineSourceMap("{}")}`],
+        ["an inline map that is not JSON", `send(1);\n${inlineSourceMap("not json")}`],
+    ])("creates the script despite %s", async (_, source) => {
+        const script = await session.createScript(source);
+
+        expect(script).toBeDefined();
+        expect(server.callsTo("CreateScript")).toHaveLength(1);
+        expect(sink).toHaveBeenCalledWith(LoggerLevel.Warning, LogCategory.Script, expect.stringContaining("source map"), expect.any(Error));
+    });
+
+    it("creates the script despite an invalid sourceMap option", async () => {
+        await session.createScript("send(1);", { sourceMap: "{}" });
+
+        expect(server.callsTo("CreateScript")).toHaveLength(1);
+        expect(sink).toHaveBeenCalledTimes(1);
+    });
+});
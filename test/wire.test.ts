@@ -0,0 +1,140 @@
+import * as generic from "d-bus-message-protocol";
+import { MessageType } from "d-bus-message-protocol";
+import { describe, expect, it } from "vitest";
+
+import { marshalArgs } from "../lib/dbus";
+import { Variant } from "../lib/protocol";
+import { measureMessage, parseMessages, serializeMessage } from "../lib/wire";
+
+/*
+ * lib/wire is checked against d-bus-message-protocol, the reference it replaces
+ * on the hot path, so that a bug shared by its encoder and decoder cannot hide.
+ * The only intended difference is that `ay` is a Uint8Array instead of number[].
+ */
+
+function toGeneric(value: any): any {
+    if (value instanceof Uint8Array) {
+        return Array.from(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(toGeneric);
+    }
+    return value;
+}
+
+function normalize(value: any): any {
+    if (value instanceof Uint8Array) {
+        return Array.from(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(normalize);
+    }
+    if (value !== null && typeof value === "object") {
+        return Object.fromEntries(Object.entries(value).map(([key, member]) => [key, normalize(member)]));
+    }
+    return value;
+}
+
+function makeSignal(signature: string, args: any[]): generic.Message {
+    const body = marshalArgs(signature, args);
+    return {
+        messageType: MessageType.Signal,
+        serial: 7,
+        objectPath: "/re/frida/AgentSession/s1",
+        interfaceName: "re.frida.AgentSession17",
+        memberName: "Message",
+        ...((body.types.length > 0) ? { types: body.types, args: body.args } : {}),
+    } as generic.Message;
+}
+
+function toGenericMessage(message: generic.Message): generic.Message {
+    return (message.args !== undefined) ? { ...message, args: toGeneric(message.args) } : message;
+}
+
+function expectCompatible(message: generic.Message): void {
+    const ours = new Uint8Array(serializeMessage(message));
+    const reference = new Uint8Array(generic.serializeMessage(toGenericMessage(message)));
+
+    expect(ours).toEqual(reference);
+    expect(measureMessage(ours)).toBe(ours.byteLength);
+    expect(normalize(parseMessages(reference.buffer))).toEqual(normalize(generic.parseMessages(reference.buffer)));
+    const [roundTripped] = parseMessages(ours.buffer);
+    expect(normalize(roundTripped.args)).toEqual(normalize(message.args));
+}
+
+const record = (text: string, data: number[]) => [1, [1], text, data.length > 0, new Uint8Array(data)];
+
+describe("wire codec", () => {
+    it.each<[string, string, any[]]>([
+        ["script message batches", "a(i(u)sbay)u", [[record('{"type":"send"}', [1, 2, 3]), record("{}", [])], 42]],
+        ["an empty batch", "a(i(u)sbay)u", [[], 0]],
+        ["variant dicts", "a{sv}", [{
+            name: new Variant("s", "frida"),
+            pid: new Variant("u", 1234),
+            big: new Variant("x", -(2n ** 40n)),
+            flag: new Variant("b", true),
+            tags: new Variant("as", ["a", "b"]),
+            icon: new Variant("ay", new Uint8Array([0x89, 0x50])),
+        }]],
+        ["an empty variant dict", "a{sv}", [{}]],
+        ["nested variants", "v", [new Variant("v", new Variant("a{sv}", { inner: new Variant("v", new Variant("d", 1.5)) }))]],
+        ["empty arrays", "asaa{sv}ay", [[], [], new Uint8Array(0)]],
+        ["a uint32 after an odd-length ay", "ayu", [new Uint8Array([1, 2, 3]), 0xdeadbeef]],
+        ["an int64 after an odd-length ay", "ayx", [new Uint8Array([1, 2, 3, 4, 5]), -1n]],
+        ["a struct after an ay", "ay(ts)", [new Uint8Array([9]), [2n ** 63n, "end"]]],
+        ["a variant dict after an ay", "aya{sv}", [new Uint8Array([1]), { k: new Variant("t", 5n) }]],
+    ])("matches the reference for %s", (_, signature, args) => {
+        expectCompatible(makeSignal(signature, args));
+    });
+
+    it("matches the reference for method calls, returns and errors", () => {
+        const call = marshalArgs("sa{sv}", ["tcp:8080", { timeout: new Variant("u", 5) }]);
+        expectCompatible({
+            messageType: MessageType.MethodCall,
+            serial: 3,
+            noReplyExpected: false,
+            noAutoStart: true,
+            allowInteractiveAuthorization: false,
+            destination: "re.frida.HostSession17",
+            objectPath: "/re/frida/HostSession",
+            interfaceName: "re.frida.HostSession17",
+            memberName: "OpenChannel",
+            types: call.types,
+            args: call.args,
+        } as any);
+
+        expectCompatible({
+            messageType: MessageType.MethodReturn,
+            serial: 4,
+            replySerial: 3,
+        } as any);
+
+        const error = marshalArgs("s", ["Unable to find process"]);
+        expectCompatible({
+            messageType: MessageType.Error,
+            serial: 5,
+            replySerial: 3,
+            errorName: "re.frida.Error.ProcessNotFound",
+            types: error.types,
+            args: error.args,
+        } as any);
+    });
+
+    it("splits a frame holding several messages", () => {
+        const first = new Uint8Array(serializeMessage(makeSignal("ay", [new Uint8Array([1, 2, 3])])));
+        const second = new Uint8Array(serializeMessage(makeSignal("s", ["next"])));
+        const frame = new Uint8Array(first.byteLength + second.byteLength);
+        frame.set(first);
+        frame.set(second, first.byteLength);
+
+        const messages = parseMessages(frame.buffer);
+
+        expect(messages.map(message => normalize(message.args))).toEqual([[[1, 2, 3]], ["next"]]);
+    });
+
+    it("hands out byte arrays as Uint8Array", () => {
+        const [message] = parseMessages(serializeMessage(makeSignal("ay", [new Uint8Array([1, 2, 3])])));
+
+        expect(message.args![0]).toBeInstanceOf(Uint8Array);
+    });
+});